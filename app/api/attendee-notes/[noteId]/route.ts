@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteAttendeeNote,
+  getAttendeeNote,
+  getNotePermissions,
+  parseNoteInput,
+  updateAttendeeNote,
+} from "@/lib/attendee-notes";
+import { resolveHostScope } from "@/lib/hosts";
+
+// Load a note the signed-in user may see, with their permissions for its host.
+// Notes of other hosts are reported as missing rather than forbidden.
+async function resolveNote(noteId: string) {
+  const scope = await resolveHostScope();
+  if (!scope.ok) {
+    return {
+      error: NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      ),
+    };
+  }
+
+  const note = await getAttendeeNote(noteId);
+  if (!note || !scope.hostUserIds.includes(note.hostUserId)) {
+    return {
+      error: NextResponse.json({ error: "Note not found" }, { status: 404 }),
+    };
+  }
+
+  return {
+    scope,
+    note,
+    permissions: getNotePermissions(scope.roles[note.hostUserId]),
+  };
+}
+
+// Change a note's flags and text
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  try {
+    const { noteId } = await params;
+
+    const input = parseNoteInput(await request.json());
+    if (!input.ok) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const target = await resolveNote(noteId);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    const update = await updateAttendeeNote({
+      noteId,
+      flags: input.flags,
+      note: input.note,
+      permissions: target.permissions,
+      changedBy: target.scope.userId,
+    });
+    if (!update.ok) {
+      return NextResponse.json(
+        { error: update.error },
+        { status: update.status }
+      );
+    }
+
+    return NextResponse.json({ note: update.note });
+  } catch (error) {
+    console.error("Update attendee note error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to save staff note",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Remove a note; its history is kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ noteId: string }> }
+) {
+  try {
+    const { noteId } = await params;
+
+    const target = await resolveNote(noteId);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    if (!target.permissions.canDelete) {
+      return NextResponse.json(
+        { error: "Only managers can delete staff notes" },
+        { status: 403 }
+      );
+    }
+
+    const note = await deleteAttendeeNote({
+      noteId,
+      changedBy: target.scope.userId,
+    });
+    if (!note) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error("Delete attendee note error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to delete staff note",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getNoteSubject } from "@/lib/attendee-flags";
+import {
+  createAttendeeNote,
+  getNoteChangeError,
+  getNoteForSubject,
+  getNotePermissions,
+  parseNoteInput,
+} from "@/lib/attendee-notes";
+import { findPaymentByIdentifier } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Resolve the payment a notes request is about, and who the note is kept against.
+// Payments of other hosts are reported as missing rather than forbidden.
+async function resolveNoteTarget(input: {
+  paymentId?: unknown;
+  hostUserId?: unknown;
+}) {
+  const paymentId = parseRecordId(input.paymentId);
+  if (paymentId === null) {
+    return {
+      error: NextResponse.json(
+        { error: "A valid payment ID is required" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const scope = await resolveHostScope(input.hostUserId);
+  if (!scope.ok) {
+    return {
+      error: NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      ),
+    };
+  }
+
+  const payment = await findPaymentByIdentifier({
+    identifier: { type: "paymentId", paymentId },
+    hostUserIds: scope.hostUserIds,
+  });
+  if (!payment) {
+    return {
+      error: NextResponse.json({ error: "Payment not found" }, { status: 404 }),
+    };
+  }
+
+  return {
+    scope,
+    hostUserId: payment.hostUserId,
+    subject: getNoteSubject(payment),
+    permissions: getNotePermissions(scope.roles[payment.hostUserId]),
+  };
+}
+
+// The staff note on the buyer or attendee behind a payment, with its change history
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const target = await resolveNoteTarget({
+      paymentId: searchParams.get("paymentId"),
+      hostUserId: searchParams.get("hostUserId"),
+    });
+    if ("error" in target) {
+      return target.error;
+    }
+
+    return NextResponse.json({
+      note: await getNoteForSubject(target.hostUserId, target.subject),
+      subject: target.subject,
+      permissions: target.permissions,
+    });
+  } catch (error) {
+    console.error("Attendee notes error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load staff notes",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a note to the buyer or attendee behind a payment
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const input = parseNoteInput(body);
+    if (!input.ok) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+
+    const target = await resolveNoteTarget(body);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    const forbidden = getNoteChangeError(target.permissions, [], input.flags);
+    if (forbidden) {
+      return NextResponse.json({ error: forbidden }, { status: 403 });
+    }
+
+    const note = await createAttendeeNote({
+      hostUserId: target.hostUserId,
+      subject: target.subject,
+      flags: input.flags,
+      note: input.note,
+      changedBy: target.scope.userId,
+    });
+    if (!note) {
+      return NextResponse.json(
+        { error: "This attendee already has a note; edit it instead" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error("Create attendee note error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to save staff note",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
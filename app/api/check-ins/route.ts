@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkInGuests, undoCheckIns } from "@/lib/check-ins";
+import { getPaymentGuests } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Resolve which guests of a payment a check-in request applies to.
+// Without guestIds the whole party is used; a payment with no guest rows
+// is tracked as a single party-level check-in.
+async function resolveCheckInTarget(body: {
+  paymentId?: unknown;
+  guestIds?: unknown;
+  hostUserId?: unknown;
+}) {
+  const paymentId = parseRecordId(body.paymentId);
+  if (paymentId === null) {
+    return {
+      error: NextResponse.json(
+        { error: "A valid payment ID is required" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  if (body.guestIds !== undefined && !Array.isArray(body.guestIds)) {
+    return {
+      error: NextResponse.json(
+        { error: "Guest IDs must be provided as an array" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  const scope = await resolveHostScope(body.hostUserId);
+  if (!scope.ok) {
+    return {
+      error: NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      ),
+    };
+  }
+
+  const payment = await getPaymentGuests({
+    paymentId,
+    hostUserIds: scope.hostUserIds,
+  });
+  if (!payment) {
+    return {
+      error: NextResponse.json({ error: "Payment not found" }, { status: 404 }),
+    };
+  }
+
+  const partyGuestIds: Array<number | null> =
+    payment.guestIds.length > 0 ? payment.guestIds : [null];
+
+  const requested = body.guestIds as unknown[] | undefined;
+  const guestIds = requested
+    ? partyGuestIds.filter((guestId) =>
+        requested.map(Number).includes(Number(guestId))
+      )
+    : partyGuestIds;
+
+  if (guestIds.length === 0) {
+    return {
+      error: NextResponse.json(
+        { error: "None of the guests belong to this payment" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { scope, payment, guestIds };
+}
+
+// When a queued (offline) check-in was made; never later than now
+function parseCheckedInAt(value: unknown) {
+  if (value === undefined || value === null) {
+    return { checkedInAt: undefined };
+  }
+
+  const time = new Date(String(value)).getTime();
+  if (isNaN(time)) {
+    return {
+      error: NextResponse.json(
+        { error: "checkedInAt must be an ISO date" },
+        { status: 400 }
+      ),
+    };
+  }
+
+  return { checkedInAt: new Date(Math.min(time, Date.now())).toISOString() };
+}
+
+// Check in a party, or specific guests of it
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const time = parseCheckedInAt(body.checkedInAt);
+    if ("error" in time) {
+      return time.error;
+    }
+
+    const target = await resolveCheckInTarget(body);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    const checkIns = await checkInGuests({
+      paymentId: target.payment.paymentId,
+      guestIds: target.guestIds,
+      eventId: target.payment.eventId,
+      hostUserId: target.payment.hostUserId,
+      checkedInBy: target.scope.userId,
+      checkedInAt: time.checkedInAt,
+    });
+
+    return NextResponse.json({ checkIns });
+  } catch (error) {
+    console.error("Check-in error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to check in",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Undo a check-in for a party, or specific guests of it
+export async function DELETE(request: NextRequest) {
+  try {
+    const target = await resolveCheckInTarget(await request.json());
+    if ("error" in target) {
+      return target.error;
+    }
+
+    const removed = await undoCheckIns({
+      paymentId: target.payment.paymentId,
+      guestIds: target.guestIds,
+    });
+
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("Undo check-in error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to undo check-in",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCheckInsForEvent } from "@/lib/check-ins";
+import { getEventRoster } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Arrival counts for one event: guests checked in versus guests expected
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const parsedEventId = parseRecordId(eventId);
+
+    if (parsedEventId === null) {
+      return NextResponse.json(
+        { error: "Event ID must be a number" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const roster = await getEventRoster({
+      eventId: parsedEventId,
+      hostUserIds: scope.hostUserIds,
+    });
+    if (!roster) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    // Refunded and failed payments are left off the roster, so their earlier
+    // check-ins count neither as arrivals nor as expected
+    const rosterPaymentIds = new Set(
+      roster.attendees.map((attendee) => attendee.paymentId)
+    );
+    const checkIns = (await getCheckInsForEvent(parsedEventId)).filter(
+      (checkIn) => rosterPaymentIds.has(checkIn.paymentId)
+    );
+
+    // A payment without guest rows counts as one expected arrival
+    const expected = roster.attendees.reduce(
+      (total, attendee) => total + Math.max(attendee.guestCount, 1),
+      0
+    );
+
+    return NextResponse.json({
+      eventId: parsedEventId,
+      arrived: checkIns.length,
+      expected,
+      partiesArrived: new Set(checkIns.map((checkIn) => checkIn.paymentId))
+        .size,
+      parties: roster.attendees.length,
+      checkIns,
+    });
+  } catch (error) {
+    console.error("Arrival count error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load arrival counts",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventRoster } from "@/lib/db";
+import { buildDoorList, renderDoorListPdf } from "@/lib/door-list";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Door list for one event as a downloadable PDF, rendered in-process
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const parsedEventId = parseRecordId(eventId);
+
+    if (parsedEventId === null) {
+      return NextResponse.json(
+        { error: "Event ID must be a number" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const roster = await getEventRoster({
+      eventId: parsedEventId,
+      hostUserIds: scope.hostUserIds,
+    });
+
+    if (!roster) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const pdf = await renderDoorListPdf(
+      roster.event,
+      buildDoorList(roster.attendees)
+    );
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="door-list-${roster.event.id}.pdf"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Door list PDF error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to generate door list",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
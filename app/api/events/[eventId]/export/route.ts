@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withCheckIns } from "@/lib/check-ins";
+import { getEventRoster } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+import { buildExport, isExportFormat } from "@/lib/seat-export";
+
+// Full event roster as CSV or XLSX (?format=csv|xlsx, optional ?includeInvalid=true)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const parsedEventId = parseRecordId(eventId);
+    const format = request.nextUrl.searchParams.get("format") ?? "csv";
+
+    if (parsedEventId === null) {
+      return NextResponse.json(
+        { error: "Event ID must be a number" },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: "Format must be csv or xlsx" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const roster = await getEventRoster({
+      eventId: parsedEventId,
+      hostUserIds: scope.hostUserIds,
+      includeInvalid:
+        request.nextUrl.searchParams.get("includeInvalid") === "true",
+    });
+
+    if (!roster) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const file = await buildExport(
+      await withCheckIns(roster.attendees),
+      format,
+      `event-${roster.event.id}-roster`
+    );
+
+    return new NextResponse(file.body, { headers: file.headers });
+  } catch (error) {
+    console.error("Event roster export error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to export event roster",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
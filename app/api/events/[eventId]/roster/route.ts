@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { withCheckIns } from "@/lib/check-ins";
+import { getEventRoster } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Full attendee roster with seats for one event; refunded and failed payments
+// are left out unless ?includeInvalid=true
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ eventId: string }> }
+) {
+  try {
+    const { eventId } = await params;
+    const parsedEventId = parseRecordId(eventId);
+
+    if (parsedEventId === null) {
+      return NextResponse.json(
+        { error: "Event ID must be a number" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const roster = await getEventRoster({
+      eventId: parsedEventId,
+      hostUserIds: scope.hostUserIds,
+      includeInvalid:
+        request.nextUrl.searchParams.get("includeInvalid") === "true",
+    });
+
+    // Events of other hosts are reported as missing rather than forbidden
+    if (!roster) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      event: roster.event,
+      attendees: await withAttendeeNotes(await withCheckIns(roster.attendees)),
+      metadata: {
+        total: roster.attendees.length,
+      },
+    });
+  } catch (error) {
+    console.error("Event roster error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load event roster",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
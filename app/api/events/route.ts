@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listHostEvents } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+
+// List current and upcoming events for the roster picker
+export async function GET(request: NextRequest) {
+  try {
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const events = await listHostEvents({ hostUserIds: scope.hostUserIds });
+
+    return NextResponse.json({
+      events,
+      metadata: {
+        hostUserIds: scope.hostUserIds,
+        total: events.length,
+      },
+    });
+  } catch (error) {
+    console.error("Event list error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load events",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
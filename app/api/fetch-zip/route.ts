@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { getPayrixConfig } from "@/lib/payrix";
+import { lookupZipCodes } from "@/lib/zip-cache";
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,54 +13,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const apiKey = process.env.WORLDPAY_API_KEY;
-    if (!apiKey) {
+    const config = getPayrixConfig();
+    if (!config) {
       return NextResponse.json(
         { error: "API key not configured" },
         { status: 500 }
       );
     }
 
+    const { results: lookups, cache } = await lookupZipCodes(
+      config,
+      transactionIds.map(String)
+    );
+
     const results = [];
     const errors = [];
 
-    for (const txnId of transactionIds) {
-      try {
-        const response = await fetch(
-          `https://test-api.payrix.com/txns/${txnId}`,
-          {
-            method: "GET",
-            headers: {
-              "Content-Type": "application/json",
-              APIKEY: apiKey,
-            },
-          }
-        );
-
-        if (!response.ok) {
-          errors.push({
-            transactionId: txnId,
-            error: `HTTP ${response.status}: ${response.statusText}`,
-          });
-          continue;
-        }
-
-        const data = await response.json();
-
-        // Extract ZIP from the nested response structure
-        const zipCode = data?.response?.data?.[0]?.zip || "Not found";
-
+    for (const lookup of lookups) {
+      if (lookup.ok) {
         results.push({
-          transactionId: txnId,
-          zipCode,
-          fullResponse: data, // Include full response for debugging
+          transactionId: lookup.transactionId,
+          zipCode: lookup.zipCode || "Not found",
+          billing: lookup.billing,
+          cached: lookup.cached,
+          attempts: lookup.attempts,
+          fullResponse: lookup.response, // Include full response for debugging (fresh lookups only)
         });
-
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      } catch (error) {
+      } else {
         errors.push({
-          transactionId: txnId,
-          error: error instanceof Error ? error.message : "Unknown error",
+          transactionId: lookup.transactionId,
+          error: lookup.error,
+          status: lookup.status,
+          attempts: lookup.attempts,
         });
       }
     }
@@ -70,6 +56,7 @@ export async function POST(request: NextRequest) {
         total: transactionIds.length,
         successful: results.length,
         failed: errors.length,
+        cache,
       },
     });
   } catch {
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { resolveHostScope } from "@/lib/hosts";
+
+// List the hosts the signed-in user can switch between
+export async function GET() {
+  const scope = await resolveHostScope();
+
+  if (!scope.ok) {
+    return NextResponse.json({ error: scope.error }, { status: scope.status });
+  }
+
+  return NextResponse.json({
+    hosts: scope.hosts,
+  });
+}
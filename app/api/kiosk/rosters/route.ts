@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { withCheckIns } from "@/lib/check-ins";
+import { getEventRoster, listHostEvents } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { classifyEventDate } from "@/lib/timezone";
+
+// Today's rosters (by each host's local date) for the offline kiosk to cache
+export async function GET(request: NextRequest) {
+  try {
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const events = (
+      await listHostEvents({ hostUserIds: scope.hostUserIds })
+    ).filter(
+      (event) => classifyEventDate(event.startAt, event.timezone) === "today"
+    );
+
+    // One roster at a time to keep the pool free for door lookups
+    const rosters = [];
+    for (const event of events) {
+      const roster = await getEventRoster({
+        eventId: event.id,
+        hostUserIds: scope.hostUserIds,
+      });
+      if (roster) {
+        rosters.push({
+          event: roster.event,
+          attendees: await withAttendeeNotes(
+            await withCheckIns(roster.attendees)
+          ),
+        });
+      }
+    }
+
+    return NextResponse.json({
+      fetchedAt: new Date().toISOString(),
+      hostUserIds: scope.hostUserIds,
+      rosters,
+    });
+  } catch (error) {
+    console.error("Kiosk roster error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load today's rosters",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
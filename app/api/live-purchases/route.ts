@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import {
+  getLatestPaymentId,
+  listHostEvents,
+  listPaymentsAfter,
+} from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import {
+  formatSseEvent,
+  getLiveFeedConfig,
+  getPollDelay,
+  LIVE_ERROR_EVENT,
+  LIVE_PING_EVENT,
+  LIVE_PURCHASE_EVENT,
+} from "@/lib/live-feed";
+import { classifyEventDate } from "@/lib/timezone";
+
+// The stream stays open for as long as the dashboard does
+export const dynamic = "force-dynamic";
+
+// Server-sent events: new purchases on today's shows for the host scope, polled
+// from the warehouse every LIVE_FEED_POLL_MS (backing off to LIVE_FEED_MAX_BACKOFF_MS
+// while polls fail). Resumes after the Last-Event-ID a reconnecting EventSource sends.
+export async function GET(request: NextRequest) {
+  const scope = await resolveHostScope(
+    request.nextUrl.searchParams.get("hostUserId")
+  );
+  if (!scope.ok) {
+    return NextResponse.json({ error: scope.error }, { status: scope.status });
+  }
+
+  const config = getLiveFeedConfig();
+  const resumeFrom = parseInt(request.headers.get("last-event-id") || "");
+  const encoder = new TextEncoder();
+
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stop = () => {
+    closed = true;
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+      };
+
+      const close = () => {
+        if (closed) return;
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away
+        }
+      };
+
+      request.signal.addEventListener("abort", close);
+
+      let cursor: number | null = isNaN(resumeFrom) ? null : resumeFrom;
+      let failures = 0;
+
+      const poll = async () => {
+        if (closed) return;
+
+        try {
+          // Re-read each time so the feed rolls over to the next day's shows
+          const eventIds = (
+            await listHostEvents({ hostUserIds: scope.hostUserIds })
+          )
+            .filter(
+              (event) =>
+                classifyEventDate(event.startAt, event.timezone) === "today"
+            )
+            .map((event) => event.id);
+
+          if (cursor === null) {
+            cursor = await getLatestPaymentId({
+              hostUserIds: scope.hostUserIds,
+            });
+          } else {
+            const next = await listPaymentsAfter({
+              eventIds,
+              hostUserIds: scope.hostUserIds,
+              afterPaymentId: cursor,
+            });
+            // A returning buyer may already be flagged, e.g. "do not admit"
+            (await withAttendeeNotes(next.purchases)).forEach((purchase) =>
+              send(
+                formatSseEvent({
+                  event: LIVE_PURCHASE_EVENT,
+                  id: purchase.paymentId,
+                  data: purchase,
+                })
+              )
+            );
+            cursor = next.cursor;
+          }
+
+          failures = 0;
+          send(
+            formatSseEvent({
+              event: LIVE_PING_EVENT,
+              id: cursor,
+              data: { eventIds, at: new Date().toISOString() },
+            })
+          );
+        } catch (error) {
+          failures++;
+          console.error("Live purchase feed poll failed:", error);
+          send(
+            formatSseEvent({
+              event: LIVE_ERROR_EVENT,
+              data: {
+                error: "Failed to check for new purchases",
+                retryInMs: getPollDelay(config, failures),
+              },
+            })
+          );
+        }
+
+        if (!closed) {
+          timer = setTimeout(poll, getPollDelay(config, failures));
+        }
+      };
+
+      // How long EventSource waits before reconnecting after a dropped connection
+      send(`retry: ${config.pollIntervalMs}\n\n`);
+      poll();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { withCheckIns } from "@/lib/check-ins";
+import { getAttendeeHistory } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+
+// Purchase history of the attendee behind one payment, across all of that host's events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ paymentId: string }> }
+) {
+  try {
+    const { paymentId } = await params;
+    const parsedPaymentId = parseRecordId(paymentId);
+
+    if (parsedPaymentId === null) {
+      return NextResponse.json(
+        { error: "Payment ID must be a number" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const history = await getAttendeeHistory({
+      paymentId: parsedPaymentId,
+      hostUserIds: scope.hostUserIds,
+    });
+
+    // Payments of other hosts are reported as missing rather than forbidden
+    if (!history) {
+      return NextResponse.json({ error: "Payment not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...history,
+      payments: await withAttendeeNotes(await withCheckIns(history.payments)),
+    });
+  } catch (error) {
+    console.error("Attendee history error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load attendee history",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { getPayrixEnvironmentInfo } from "@/lib/payrix";
+
+// Which Payrix environment ZIP lookups go to, for the header badge
+export async function GET() {
+  return NextResponse.json(getPayrixEnvironmentInfo());
+}
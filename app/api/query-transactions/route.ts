@@ -1,47 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { searchPayments } from "@/lib/db";
-
-// Helper function to fetch ZIP code from Worldpay API
-async function fetchZipFromWorldpay(
-  transactionId: string | null
-): Promise<string> {
-  // Handle null or invalid transaction IDs
-  if (!transactionId) {
-    return "No transaction ID";
-  }
-
-  // Only process transaction IDs that look like Worldpay format (t1_txn_...)
-  if (!transactionId.startsWith("t1_txn_")) {
-    return "Invalid transaction format";
-  }
-
-  try {
-    const apiKey = process.env.WORLDPAY_API_KEY;
-    if (!apiKey) {
-      return "API key not configured";
-    }
-
-    const response = await fetch(
-      `https://test-api.payrix.com/txns/${transactionId}`,
-      {
-        method: "GET",
-        headers: {
-          "Content-Type": "application/json",
-          APIKEY: apiKey,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      return `API error: ${response.status}`;
-    }
-
-    const data = await response.json();
-    return data?.response?.data?.[0]?.zip || "ZIP not found";
-  } catch (error) {
-    return `API error: ${error instanceof Error ? error.message : "Unknown"}`;
-  }
-}
+import {
+  lookupTransactionZips,
+  toLookupErrors,
+  toTransactionResult,
+} from "@/lib/transaction-zips";
 
 export async function POST(request: NextRequest) {
   try {
@@ -79,47 +42,24 @@ export async function POST(request: NextRequest) {
       offset,
     });
 
-    // Fetch ZIP codes from Worldpay API for each transaction
-    const results = [];
-    const errors = [];
-
-    for (const payment of payments) {
-      try {
-        const zipCode = await fetchZipFromWorldpay(payment.transaction_id);
-
-        results.push({
-          transactionId: payment.transaction_id,
-          zipCode,
-          createdAt: payment.created_at,
-          amount: payment.amount ? Number(payment.amount) : null,
-          status: payment.status,
-          cardType: payment.card_type,
-          lastFour: payment.last_four,
-          ipAddress: payment.metadata?.ip_address,
-          // Database-specific fields
-          paymentId: payment.id,
-          userId: payment.user_id,
-          eventId: payment.event_id,
-          eventAttendeeId: payment.event_attendee_id,
-        });
+    // Fetch ZIP codes from Worldpay API for every transaction at once
+    const { zips, cache } = await lookupTransactionZips(
+      payments.map((payment) => payment.transaction_id)
+    );
 
-        // Add a small delay to avoid overwhelming the API
-        await new Promise((resolve) => setTimeout(resolve, 100));
-      } catch (error) {
-        errors.push({
-          transactionId: payment.transaction_id,
-          error: error instanceof Error ? error.message : "Unknown error",
-        });
-      }
-    }
+    const results = payments.map((payment, index) =>
+      toTransactionResult(payment, zips[index])
+    );
+    const errors = toLookupErrors(payments, zips);
 
     return NextResponse.json({
       results,
       errors,
       summary: {
         total: payments.length,
-        successful: results.length,
+        successful: results.length - errors.length,
         failed: errors.length,
+        cache,
       },
       metadata: {
         source: "database + api",
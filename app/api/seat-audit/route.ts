@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventRoster, listHostEventsBetween } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseRecordId } from "@/lib/search-query";
+import {
+  auditEventSeats,
+  hasSeatIssues,
+  SeatAuditReport,
+} from "@/lib/seat-audit";
+import { parseDateFilter } from "@/lib/seat-lookup-request";
+
+// Rosters are loaded one by one, so a range is capped to keep the request bounded
+const MAX_AUDIT_EVENTS = 60;
+
+// Seat audit for one event (?eventId=) or every event in a date range
+// (?dateFrom=&dateTo=, YYYY-MM-DD in each host's local date)
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const eventId = searchParams.get("eventId");
+
+    const scope = await resolveHostScope(searchParams.get("hostUserId"));
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    let eventIds: number[];
+
+    if (eventId) {
+      const parsedEventId = parseRecordId(eventId);
+      if (parsedEventId === null) {
+        return NextResponse.json(
+          { error: "Event ID must be a number" },
+          { status: 400 }
+        );
+      }
+      eventIds = [parsedEventId];
+    } else {
+      const dateFilter = parseDateFilter({
+        dateFrom: searchParams.get("dateFrom"),
+        dateTo: searchParams.get("dateTo"),
+      });
+      if (!dateFilter.ok) {
+        return NextResponse.json({ error: dateFilter.error }, { status: 400 });
+      }
+
+      const { dateFrom, dateTo } = dateFilter.filter;
+      if (!dateFrom || !dateTo) {
+        return NextResponse.json(
+          { error: "Pass an eventId, or both dateFrom and dateTo" },
+          { status: 400 }
+        );
+      }
+
+      const events = await listHostEventsBetween({
+        hostUserIds: scope.hostUserIds,
+        dateFrom,
+        dateTo,
+      });
+      if (events.length > MAX_AUDIT_EVENTS) {
+        return NextResponse.json(
+          {
+            error: `That range has ${events.length} events; audit at most ${MAX_AUDIT_EVENTS} at a time`,
+          },
+          { status: 400 }
+        );
+      }
+      eventIds = events.map((event) => event.id);
+    }
+
+    // One roster at a time to keep the pool free for door lookups
+    const reports: SeatAuditReport[] = [];
+    for (const id of eventIds) {
+      const roster = await getEventRoster({
+        eventId: id,
+        hostUserIds: scope.hostUserIds,
+        includeInvalid: true,
+      });
+      if (roster) {
+        reports.push(auditEventSeats(roster.event, roster.attendees));
+      }
+    }
+
+    // Events of other hosts are reported as missing rather than forbidden
+    if (eventId && reports.length === 0) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      reports,
+      metadata: {
+        hostUserIds: scope.hostUserIds,
+        eventCount: reports.length,
+        eventsWithIssues: reports.filter(hasSeatIssues).length,
+        conflicts: reports.reduce(
+          (total, report) => total + report.conflicts.length,
+          0
+        ),
+        missingSeats: reports.reduce(
+          (total, report) => total + report.missingSeats.length,
+          0
+        ),
+        unnumbered: reports.reduce(
+          (total, report) => total + report.unnumbered.length,
+          0
+        ),
+        releasable: reports.reduce(
+          (total, report) => total + report.releasable.length,
+          0
+        ),
+      },
+    });
+  } catch (error) {
+    console.error("Seat audit error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to run seat audit",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { MAX_BATCH_ROWS, parseBatchInput } from "@/lib/batch-lookup";
+import { withCheckIns } from "@/lib/check-ins";
+import { batchSeatLookup } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parseDateFilter } from "@/lib/seat-lookup-request";
+
+// Look up a group's list of names in one go. `input` is a pasted list (one name,
+// email or transaction ID per line) or CSV text in the example.csv shape
+// (first, last, email, transaction ID). Rows come back bucketed as matched,
+// ambiguous or not found, in input order within each bucket.
+export async function POST(request: NextRequest) {
+  try {
+    const { input, hostUserId, dateWindow, dateFrom, dateTo, includeInvalid } =
+      await request.json();
+
+    if (!input || typeof input !== "string") {
+      return NextResponse.json(
+        { error: "Paste a list of names or upload a CSV" },
+        { status: 400 }
+      );
+    }
+
+    const rows = parseBatchInput(input);
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { error: "No names, emails or transaction IDs found in the list" },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+      return NextResponse.json(
+        {
+          error: `The list has ${rows.length} rows; look up at most ${MAX_BATCH_ROWS} at a time`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const dateFilter = parseDateFilter({ dateWindow, dateFrom, dateTo });
+    if (!dateFilter.ok) {
+      return NextResponse.json({ error: dateFilter.error }, { status: 400 });
+    }
+
+    const scope = await resolveHostScope(hostUserId);
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const entries = await batchSeatLookup({
+      rows,
+      hostUserIds: scope.hostUserIds,
+      dateFilter: dateFilter.filter,
+      includeInvalid: includeInvalid === true,
+    });
+
+    // One pass over the check-in and notes stores for every payment in the batch
+    const stored = new Map(
+      (
+        await withAttendeeNotes(
+          await withCheckIns(entries.flatMap((entry) => entry.results))
+        )
+      ).map((result) => [result.paymentId, result])
+    );
+    const withStoredData = entries.map((entry) => ({
+      ...entry,
+      results: entry.results.map((result) => ({
+        ...result,
+        checkIns: stored.get(result.paymentId)?.checkIns || [],
+        notes: stored.get(result.paymentId)?.notes || [],
+      })),
+    }));
+
+    const matched = withStoredData.filter(
+      (entry) => entry.status === "matched"
+    );
+    const ambiguous = withStoredData.filter(
+      (entry) => entry.status === "ambiguous"
+    );
+    const notFound = withStoredData.filter(
+      (entry) => entry.status === "not_found"
+    );
+
+    return NextResponse.json({
+      matched,
+      ambiguous,
+      notFound,
+      metadata: {
+        hostUserIds: scope.hostUserIds,
+        dateFilter: dateFilter.filter,
+        includeInvalid: includeInvalid === true,
+        total: rows.length,
+        matched: matched.length,
+        ambiguous: ambiguous.length,
+        notFound: notFound.length,
+      },
+    });
+  } catch (error) {
+    console.error("Batch seat lookup error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Batch lookup failed",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withCheckIns } from "@/lib/check-ins";
+import { searchPaymentsByNameOrEmail } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { buildExport, isExportFormat } from "@/lib/seat-export";
+import { parseDateFilter } from "@/lib/seat-lookup-request";
+import { getDateKey } from "@/lib/timezone";
+
+// Export every result of a seat lookup (not just the loaded page) as CSV or XLSX.
+// Takes the same body as POST /api/seat-lookup plus `format`.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      searchQuery,
+      hostUserId,
+      dateWindow,
+      dateFrom,
+      dateTo,
+      includeInvalid,
+    } = body;
+    const format = body.format ?? "csv";
+
+    if (!searchQuery || typeof searchQuery !== "string") {
+      return NextResponse.json(
+        { error: "Search query is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: "Format must be csv or xlsx" },
+        { status: 400 }
+      );
+    }
+
+    const dateFilter = parseDateFilter({ dateWindow, dateFrom, dateTo });
+    if (!dateFilter.ok) {
+      return NextResponse.json({ error: dateFilter.error }, { status: 400 });
+    }
+
+    const scope = await resolveHostScope(hostUserId);
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const lookup = await searchPaymentsByNameOrEmail({
+      searchQuery: searchQuery.trim(),
+      hostUserIds: scope.hostUserIds,
+      dateFilter: dateFilter.filter,
+      includeInvalid: includeInvalid === true,
+    });
+
+    const file = await buildExport(
+      await withCheckIns(lookup.results),
+      format,
+      `seat-lookup-${getDateKey(new Date())}`
+    );
+
+    return new NextResponse(file.body, { headers: file.headers });
+  } catch (error) {
+    console.error("Seat lookup export error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to export seat lookup results",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { withCheckIns } from "@/lib/check-ins";
 import { searchPaymentsByNameOrEmail } from "@/lib/db";
-
-const HOST_USER_ID = 9987142;
+import { resolveHostScope } from "@/lib/hosts";
+import { detectSearchType } from "@/lib/search-query";
+import { parseDateFilter, parsePagination } from "@/lib/seat-lookup-request";
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { searchQuery } = body;
+    const {
+      searchQuery,
+      hostUserId,
+      dateWindow,
+      dateFrom,
+      dateTo,
+      includeInvalid,
+    } = body;
 
-    console.log('Seat lookup request:', { searchQuery, hostUserId: HOST_USER_ID });
+    console.log("Seat lookup request:", { searchQuery, hostUserId });
 
     // Validate input
     if (!searchQuery || typeof searchQuery !== "string") {
@@ -20,26 +30,60 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Query the database for payments matching the search query for host user 9987142
-    console.log('Executing database query...');
-    const results = await searchPaymentsByNameOrEmail({
+    const dateFilter = parseDateFilter({ dateWindow, dateFrom, dateTo });
+    if (!dateFilter.ok) {
+      return NextResponse.json({ error: dateFilter.error }, { status: 400 });
+    }
+
+    const { page, pageSize } = parsePagination(body);
+
+    // Only search hosts the signed-in user has been granted
+    const scope = await resolveHostScope(hostUserId);
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    console.log("Executing database query...");
+    const lookup = await searchPaymentsByNameOrEmail({
       searchQuery: searchQuery.trim(),
-      hostUserId: HOST_USER_ID,
+      hostUserIds: scope.hostUserIds,
+      dateFilter: dateFilter.filter,
+      page,
+      pageSize,
+      includeInvalid: includeInvalid === true,
     });
+    const results = await withAttendeeNotes(await withCheckIns(lookup.results));
 
-    console.log('Query successful, found results:', results.length);
+    console.log("Query successful, found results:", lookup.total);
 
     return NextResponse.json({
       results,
+      counts: lookup.counts,
+      pagination: {
+        page: lookup.page,
+        pageSize: lookup.pageSize,
+        total: lookup.total,
+        hasMore: lookup.hasMore,
+      },
       metadata: {
-        hostUserId: HOST_USER_ID,
+        hostUserIds: scope.hostUserIds,
         searchQuery: searchQuery.trim(),
-        total: results.length,
+        searchType: detectSearchType(searchQuery),
+        dateFilter: dateFilter.filter,
+        includeInvalid: includeInvalid === true,
+        hiddenInvalid: lookup.hiddenInvalid,
+        total: lookup.total,
       },
     });
   } catch (error) {
     console.error("Seat lookup error details:", error);
-    console.error("Error stack:", error instanceof Error ? error.stack : 'No stack trace');
+    console.error(
+      "Error stack:",
+      error instanceof Error ? error.stack : "No stack trace"
+    );
 
     // Check if it's a connection error
     if (error instanceof Error && error.message.includes("connect")) {
@@ -85,7 +129,6 @@ export async function GET() {
       status: "connected",
       database: firstRow.database,
       serverTime: firstRow.current_time,
-      hostUserId: HOST_USER_ID,
     });
   } catch (error) {
     return NextResponse.json(
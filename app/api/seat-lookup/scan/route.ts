@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withAttendeeNotes } from "@/lib/attendee-notes";
+import { withCheckIns } from "@/lib/check-ins";
+import { findPaymentByIdentifier } from "@/lib/db";
+import { resolveHostScope } from "@/lib/hosts";
+import { parsePaymentIdentifier } from "@/lib/search-query";
+
+// Look up one payment by a scanned or typed payment ID / transaction ID
+export async function POST(request: NextRequest) {
+  try {
+    const { code, hostUserId } = await request.json();
+
+    if (!code || typeof code !== "string") {
+      return NextResponse.json({ error: "Code is required" }, { status: 400 });
+    }
+
+    const identifier = parsePaymentIdentifier(code);
+    if (!identifier) {
+      return NextResponse.json(
+        {
+          error:
+            "Not a payment ID or transaction ID (expected digits, p1_txn_… or t1_txn_…)",
+        },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(hostUserId);
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const result = await findPaymentByIdentifier({
+      identifier,
+      hostUserIds: scope.hostUserIds,
+    });
+
+    // Payments of other hosts are reported as missing rather than forbidden
+    if (!result) {
+      return NextResponse.json(
+        { error: "No ticket found for that code", identifier },
+        { status: 404 }
+      );
+    }
+
+    const [withStatus] = await withAttendeeNotes(await withCheckIns([result]));
+
+    return NextResponse.json({
+      result: withStatus,
+      metadata: {
+        hostUserIds: scope.hostUserIds,
+        identifier,
+      },
+    });
+  } catch (error) {
+    console.error("Scan lookup error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to look up code",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { hasStaffRole, resolveHostScope } from "@/lib/hosts";
+import { getZipCacheSummary, invalidateZipCache } from "@/lib/zip-cache";
+
+// The ZIP cache is shared by every host's reports, so managing it is for managers
+// (of any host) only
+async function requireManager() {
+  const scope = await resolveHostScope();
+  if (!scope.ok) {
+    return NextResponse.json({ error: scope.error }, { status: scope.status });
+  }
+
+  if (
+    !Object.values(scope.roles).some((role) => hasStaffRole(role, "manager"))
+  ) {
+    return NextResponse.json(
+      { error: "Only managers can manage the ZIP cache" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// How many ZIP lookups are cached
+export async function GET() {
+  try {
+    const forbidden = await requireManager();
+    if (forbidden) {
+      return forbidden;
+    }
+
+    return NextResponse.json(await getZipCacheSummary());
+  } catch (error) {
+    console.error("ZIP cache summary error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to read the ZIP cache",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Invalidate cached lookups: `transactionIds` for specific transactions, `negativeOnly`
+// for just the "no ZIP" answers, or `all: true` to clear everything
+export async function DELETE(request: NextRequest) {
+  try {
+    const forbidden = await requireManager();
+    if (forbidden) {
+      return forbidden;
+    }
+
+    const { transactionIds, negativeOnly, all } = await request
+      .json()
+      .catch(() => ({}));
+
+    if (transactionIds !== undefined && !Array.isArray(transactionIds)) {
+      return NextResponse.json(
+        { error: "Transaction IDs must be provided as an array" },
+        { status: 400 }
+      );
+    }
+
+    // Clearing everything has to be asked for explicitly
+    if (!transactionIds && negativeOnly !== true && all !== true) {
+      return NextResponse.json(
+        {
+          error:
+            "Pass transactionIds, negativeOnly: true or all: true to choose what to invalidate",
+        },
+        { status: 400 }
+      );
+    }
+
+    const removed = await invalidateZipCache({
+      transactionIds: transactionIds?.map(String),
+      negativeOnly: negativeOnly === true,
+    });
+
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error("ZIP cache invalidate error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to invalidate the ZIP cache",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
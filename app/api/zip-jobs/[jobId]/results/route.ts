@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveHostScope } from "@/lib/hosts";
+import { toTransactionCsv } from "@/lib/transaction-zips";
+import { getZipJob, getZipJobResults } from "@/lib/zip-jobs";
+
+// Download a completed job's results: JSON shaped like the /api/query-transactions
+// response, or ?format=csv for one row per payment
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+    const format = request.nextUrl.searchParams.get("format") || "json";
+
+    if (format !== "json" && format !== "csv") {
+      return NextResponse.json(
+        { error: "Format must be json or csv" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope();
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const job = await getZipJob(jobId);
+    if (!job || !scope.hostUserIds.includes(job.hostUserId)) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (job.status !== "completed") {
+      return NextResponse.json(
+        { error: `Job is ${job.status}; results are ready once it completes` },
+        { status: 409 }
+      );
+    }
+
+    const results = await getZipJobResults(jobId);
+    if (!results) {
+      return NextResponse.json(
+        { error: "Results are no longer available" },
+        { status: 404 }
+      );
+    }
+
+    const fileName = `zip-extraction-${job.hostUserId}-${job.id.slice(0, 8)}`;
+    const headers = {
+      "Content-Disposition": `attachment; filename="${fileName}.${format}"`,
+      "Cache-Control": "no-store",
+    };
+
+    if (format === "csv") {
+      return new NextResponse(toTransactionCsv(results.results), {
+        headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+      });
+    }
+
+    return NextResponse.json({ job, ...results }, { headers });
+  } catch (error) {
+    console.error("ZIP job results error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load the ZIP extraction results",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from "next/server";
+import { resolveHostScope } from "@/lib/hosts";
+import { cancelZipJob, getZipJob, isFinished } from "@/lib/zip-jobs";
+
+// Load a job the signed-in user may see. Jobs of other hosts are reported as missing
+// rather than forbidden.
+async function resolveJob(jobId: string) {
+  const scope = await resolveHostScope();
+  if (!scope.ok) {
+    return {
+      error: NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      ),
+    };
+  }
+
+  const job = await getZipJob(jobId);
+  if (!job || !scope.hostUserIds.includes(job.hostUserId)) {
+    return {
+      error: NextResponse.json({ error: "Job not found" }, { status: 404 }),
+    };
+  }
+
+  return { scope, job };
+}
+
+// A job's status and progress
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const target = await resolveJob(jobId);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    return NextResponse.json({ job: target.job });
+  } catch (error) {
+    console.error("ZIP job status error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to load the ZIP extraction",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Cancel a queued or running job; a running one stops after its current chunk
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    const target = await resolveJob(jobId);
+    if ("error" in target) {
+      return target.error;
+    }
+
+    if (isFinished(target.job)) {
+      return NextResponse.json(
+        { error: `Job is already ${target.job.status}` },
+        { status: 409 }
+      );
+    }
+
+    const job = await cancelZipJob(jobId, target.scope.userId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("Cancel ZIP job error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to cancel the ZIP extraction",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveHostScope } from "@/lib/hosts";
+import { listZipJobs, MAX_JOB_PAYMENTS, submitZipJob } from "@/lib/zip-jobs";
+
+// Queue a ZIP extraction. Takes the same body as /api/query-transactions and answers
+// right away with the job; poll /api/zip-jobs/:jobId for progress.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      transactionIds,
+      dateFrom,
+      dateTo,
+      hostUserId,
+      limit = MAX_JOB_PAYMENTS,
+      offset = 0,
+    } = body;
+
+    if (!hostUserId) {
+      return NextResponse.json(
+        { error: "Host user ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const scope = await resolveHostScope(hostUserId);
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    const job = await submitZipJob(
+      {
+        hostUserId: scope.hostUserIds[0],
+        transactionIds: transactionIds
+          ? (Array.isArray(transactionIds)
+              ? transactionIds
+              : [transactionIds]
+            ).map(String)
+          : undefined,
+        dateFrom: dateFrom || undefined,
+        dateTo: dateTo || undefined,
+        limit: Math.min(Math.max(parseInt(limit) || 0, 1), MAX_JOB_PAYMENTS),
+        offset: Math.max(parseInt(offset) || 0, 0),
+      },
+      scope.userId
+    );
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error("Submit ZIP job error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to queue the ZIP extraction",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Jobs for the hosts the signed-in user can see, newest first, so a reloaded page can
+// find the ones still running
+export async function GET(request: NextRequest) {
+  try {
+    const scope = await resolveHostScope(
+      request.nextUrl.searchParams.get("hostUserId")
+    );
+    if (!scope.ok) {
+      return NextResponse.json(
+        { error: scope.error },
+        { status: scope.status }
+      );
+    }
+
+    return NextResponse.json({ jobs: await listZipJobs(scope.hostUserIds) });
+  } catch (error) {
+    console.error("List ZIP jobs error:", error);
+
+    return NextResponse.json(
+      {
+        error: "Failed to list ZIP extractions",
+        details:
+          process.env.NODE_ENV === "development"
+            ? error instanceof Error
+              ? error.message
+              : "Unknown error"
+            : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { notFound } from "next/navigation";
+import { Download } from "lucide-react";
+import PrintButton from "@/components/print-button";
+import { getEventRoster } from "@/lib/db";
+import { buildDoorList } from "@/lib/door-list";
+import { resolveHostScope } from "@/lib/hosts";
+
+// Print-optimised door list: the browser repeats <thead> on every printed page,
+// so the event name and start time head each sheet
+export default async function DoorListPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ eventId: string }>;
+  searchParams: Promise<{ hostUserId?: string }>;
+}) {
+  const { eventId } = await params;
+  const { hostUserId } = await searchParams;
+  const parsedEventId = parseInt(eventId);
+
+  if (isNaN(parsedEventId)) {
+    notFound();
+  }
+
+  const scope = await resolveHostScope(hostUserId);
+  if (!scope.ok) {
+    return (
+      <main className="min-h-screen p-8 max-w-4xl mx-auto">
+        <p className="text-red-600">{scope.error}</p>
+      </main>
+    );
+  }
+
+  const roster = await getEventRoster({
+    eventId: parsedEventId,
+    hostUserIds: scope.hostUserIds,
+  });
+
+  if (!roster) {
+    notFound();
+  }
+
+  const { event } = roster;
+  const rows = buildDoorList(roster.attendees);
+  const totalGuests = rows.reduce((total, row) => total + row.partySize, 0);
+  const pdfParams = hostUserId ? `?hostUserId=${hostUserId}` : "";
+
+  return (
+    <main className="min-h-screen p-8 max-w-4xl mx-auto bg-white text-black print:p-0 print:max-w-none">
+      <div className="flex justify-end gap-2 mb-6 print:hidden">
+        <a
+          href={`/api/events/${event.id}/door-list${pdfParams}`}
+          className="px-4 py-2 border rounded-md hover:bg-gray-50 flex items-center gap-2 text-sm font-medium transition-colors">
+          <Download size={16} />
+          Download PDF
+        </a>
+        <PrintButton />
+      </div>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr>
+            <th colSpan={4} className="pb-4 text-left font-normal">
+              <div className="flex items-end justify-between gap-4">
+                <div>
+                  <h1 className="text-2xl font-bold">
+                    {event.name || `Event ${event.id}`}
+                  </h1>
+                  <p className="text-gray-700">
+                    {event.startDate} at {event.startTime} ({event.timezone})
+                  </p>
+                </div>
+                <p className="text-gray-700 whitespace-nowrap">
+                  {rows.length} parties, {totalGuests} guests
+                </p>
+              </div>
+            </th>
+          </tr>
+          <tr className="border-b-2 border-black text-left">
+            <th className="py-2 pr-3 w-10">In</th>
+            <th className="py-2 pr-3">Name</th>
+            <th className="py-2 pr-3 w-16 text-right">Party</th>
+            <th className="py-2 pl-3">Seats</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={4} className="py-8 text-center text-gray-600">
+                No attendees for this event.
+              </td>
+            </tr>
+          ) : (
+            rows.map((row) => (
+              <tr key={row.paymentId} className="border-b border-gray-300">
+                <td className="py-2 pr-3 align-top">
+                  <span className="inline-block w-4 h-4 border border-black" />
+                </td>
+                <td className="py-2 pr-3 align-top font-medium">
+                  {row.name}
+                  {row.note && (
+                    <span className="ml-2 text-xs font-normal italic">
+                      ({row.note})
+                    </span>
+                  )}
+                </td>
+                <td className="py-2 pr-3 align-top text-right">
+                  {row.partySize}
+                </td>
+                <td className="py-2 pl-3 align-top">
+                  {row.seats.join(", ") || "-"}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </main>
+  );
+}
@@ -1,326 +1,645 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import toast, { Toaster } from "react-hot-toast";
-import { Loader2, Search } from "lucide-react";
-
-interface SeatLookupResult {
-  eventName: string;
-  eventStartDate: string;
-  eventStartTime: string;
-  paymentId: number;
-  amount: number;
-  payerName?: string;
-  payerEmail?: string;
-  seatInfo?: string;
-  transactionId?: string;
+import {
+  ListChecks,
+  Loader2,
+  MapPin,
+  ScanLine,
+  Search,
+  ShieldAlert,
+  Tablet,
+  Users,
+} from "lucide-react";
+import AttendeeHistoryDrawer from "@/components/attendee-history-drawer";
+import BatchLookup from "@/components/batch-lookup";
+import EventRoster from "@/components/event-roster";
+import ExportButtons from "@/components/export-buttons";
+import LiveBadge from "@/components/live-badge";
+import ScanLookup from "@/components/scan-lookup";
+import SeatAudit from "@/components/seat-audit";
+import SeatMapDialog from "@/components/seat-map-dialog";
+import SeatResultCard from "@/components/seat-result-card";
+import ZipExtraction from "@/components/zip-extraction";
+import {
+  applyNoteChange,
+  AttendeeNoteView,
+  NoteChange,
+} from "@/lib/attendee-flags";
+import type { CheckIn } from "@/lib/check-ins";
+import type { SeatLookupResult } from "@/lib/db";
+import type { HostConfig } from "@/lib/hosts";
+import { detectSearchType } from "@/lib/search-query";
+import { matchSeatLookupParty } from "@/lib/seat-lookup-match";
+import type { DateWindow } from "@/lib/timezone";
+import { useLivePurchases } from "@/lib/use-live-purchases";
+
+type DashboardMode = "search" | "scan" | "batch" | "roster" | "audit" | "zips";
+
+const MODE_DESCRIPTIONS: Record<DashboardMode, string> = {
+  search: "Search for attendees by name, email or phone number",
+  scan: "Scan a guest's confirmation or type its payment or transaction ID",
+  batch: "Paste a group's list or upload a CSV to find everyone at once",
+  roster: "Pick a show to see every attendee and seat",
+  audit: "Check a show or date range for double-booked and unassigned seats",
+  zips: "Look up billing ZIP codes for a venue's payments in the background",
+};
+
+interface SearchPagination {
+  page: number;
+  total: number;
+  hasMore: boolean;
 }
 
+// Today's events are always shown; the rest is opt-in
+interface SearchFilters {
+  showPast: boolean;
+  showFuture: boolean;
+  includeInvalid: boolean;
+}
+
+const DEFAULT_FILTERS: SearchFilters = {
+  showPast: false,
+  showFuture: false,
+  includeInvalid: false,
+};
+
+const EMPTY_COUNTS: Record<DateWindow, number> = {
+  past: 0,
+  today: 0,
+  upcoming: 0,
+};
+
 export default function Home() {
   const [searchQuery, setSearchQuery] = useState("");
   const [results, setResults] = useState<SeatLookupResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [showPastTransactions, setShowPastTransactions] = useState(false);
-  const [showFutureTransactions, setShowFutureTransactions] = useState(false);
+  const [filters, setFilters] = useState<SearchFilters>(DEFAULT_FILTERS);
+  const [hiddenInvalid, setHiddenInvalid] = useState(0);
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [counts, setCounts] =
+    useState<Record<DateWindow, number>>(EMPTY_COUNTS);
+  const [pagination, setPagination] = useState<SearchPagination | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hosts, setHosts] = useState<HostConfig[]>([]);
+  const [selectedHostId, setSelectedHostId] = useState<string>("");
+  const [mode, setMode] = useState<DashboardMode>("search");
+  const [seatMapResult, setSeatMapResult] = useState<SeatLookupResult | null>(
+    null
+  );
+  const [historyResult, setHistoryResult] = useState<SeatLookupResult | null>(
+    null
+  );
+  const [lastNoteChange, setLastNoteChange] = useState<NoteChange | null>(null);
+  // Bumped by every new search and host switch, so a slower earlier response
+  // (a search or a "Load more") is dropped instead of overwriting newer results
+  const searchTokenRef = useRef(0);
+
+  useEffect(() => {
+    const loadHosts = async () => {
+      try {
+        const response = await fetch("/api/hosts");
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load venues");
+        }
+
+        setHosts(data.hosts || []);
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load venues"
+        );
+      }
+    };
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim()) {
-      toast.error("Please enter a name to search");
-      return;
+    loadHosts();
+  }, []);
+
+  const updateCheckIns = (paymentId: number, checkIns: CheckIn[]) => {
+    setResults((current) =>
+      current.map((result) =>
+        result.paymentId === paymentId ? { ...result, checkIns } : result
+      )
+    );
+  };
+
+  // A note saved in the history drawer applies to every result for the same buyer or attendee
+  const updateNotes = (note: AttendeeNoteView, isDeleted: boolean) => {
+    setResults((current) =>
+      current.map((result) => applyNoteChange(result, note, isDeleted))
+    );
+    setLastNoteChange({ note, isDeleted });
+  };
+
+  const getDateWindows = ({ showPast, showFuture }: SearchFilters) => {
+    const windows: DateWindow[] = ["today"];
+    if (showPast) windows.push("past");
+    if (showFuture) windows.push("upcoming");
+    return windows;
+  };
+
+  const fetchResults = async (
+    query: string,
+    page: number,
+    searchFilters: SearchFilters,
+    token: number
+  ) => {
+    const response = await fetch("/api/seat-lookup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        searchQuery: query,
+        hostUserId: selectedHostId || undefined,
+        dateWindow: getDateWindows(searchFilters),
+        includeInvalid: searchFilters.includeInvalid,
+        page,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || "Search failed");
     }
 
+    if (token !== searchTokenRef.current) {
+      return null;
+    }
+
+    setCounts(data.counts || EMPTY_COUNTS);
+    setPagination(data.pagination || null);
+    setHiddenInvalid(data.metadata?.hiddenInvalid || 0);
+
+    return {
+      results: (data.results || []) as SeatLookupResult[],
+      total: (data.pagination?.total ?? 0) as number,
+    };
+  };
+
+  const runSearch = async (query: string, searchFilters: SearchFilters) => {
+    const token = ++searchTokenRef.current;
     setIsLoading(true);
     setResults([]);
 
     toast.loading("Searching for seats...", { id: "search" });
 
     try {
-      const response = await fetch("/api/seat-lookup", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          searchQuery: searchQuery.trim(),
-        }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || "Search failed");
-      }
+      const page = await fetchResults(query, 1, searchFilters, token);
+      if (!page) return;
 
-      setResults(data.results || []);
+      setResults(page.results);
+      setSubmittedQuery(query);
 
       toast.dismiss("search");
-      toast.success(`Found ${data.results?.length || 0} result(s)`);
+      toast.success(`Found ${page.total} result(s)`);
     } catch (error) {
+      if (token !== searchTokenRef.current) return;
       toast.dismiss("search");
       toast.error(error instanceof Error ? error.message : "Search failed");
     } finally {
-      setIsLoading(false);
+      if (token === searchTokenRef.current) {
+        setIsLoading(false);
+      }
+    }
+  };
+
+  // Switching venue drops the search, including one still in flight
+  const resetSearch = () => {
+    searchTokenRef.current++;
+    toast.dismiss("search");
+    setIsLoading(false);
+    setResults([]);
+    setSubmittedQuery("");
+    setCounts(EMPTY_COUNTS);
+    setPagination(null);
+    setHiddenInvalid(0);
+  };
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) {
+      toast.error("Please enter a name, email or phone number to search");
+      return;
     }
+
+    await runSearch(searchQuery.trim(), filters);
   };
 
+  // The server filters, so changing a filter re-runs the last search
+  const handleFiltersChange = (changes: Partial<SearchFilters>) => {
+    const next = { ...filters, ...changes };
+    setFilters(next);
+
+    if (submittedQuery) {
+      runSearch(submittedQuery, next);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!pagination?.hasMore) return;
+
+    const token = searchTokenRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const page = await fetchResults(
+        submittedQuery,
+        pagination.page + 1,
+        filters,
+        token
+      );
+      if (!page) return;
+
+      // Live purchases added at the top shift the server's offset, so the next
+      // page can repeat results already on screen
+      setResults((current) => {
+        const shown = new Set(current.map((result) => result.paymentId));
+        return [
+          ...current,
+          ...page.results.filter((result) => !shown.has(result.paymentId)),
+        ];
+      });
+    } catch (error) {
+      if (token !== searchTokenRef.current) return;
+      toast.error(
+        error instanceof Error ? error.message : "Failed to load more results"
+      );
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const hasSearched = submittedQuery !== "";
+
+  // Purchases made after the search ran are added when they match it; the feed only
+  // covers tonight's shows, which are always inside the date filter
+  const isLive = useLivePurchases(
+    selectedHostId,
+    (purchase) => {
+      if (results.some((result) => result.paymentId === purchase.paymentId)) {
+        return;
+      }
+
+      const match = matchSeatLookupParty(
+        submittedQuery,
+        {
+          firstName: purchase.payerFirstName,
+          lastName: purchase.payerLastName,
+          email: purchase.payerEmail,
+          phone: purchase.payerPhone,
+        },
+        purchase.guests
+      );
+      if (!match) return;
+
+      setResults((current) => [{ ...purchase, ...match }, ...current]);
+      setCounts((current) => ({ ...current, today: current.today + 1 }));
+      setPagination((current) =>
+        current ? { ...current, total: current.total + 1 } : current
+      );
+      toast.success(
+        `New purchase: ${purchase.payerName || "Unknown"} for ${
+          purchase.eventName
+        }`
+      );
+    },
+    mode === "search" && hasSearched
+  );
+  const pastCount = counts.past;
+  const futureCount = counts.upcoming;
 
   return (
     <main className="min-h-screen p-8 max-w-6xl mx-auto">
       <Toaster position="top-right" />
 
       <h1 className="text-3xl font-bold mb-4">Seat Lookup</h1>
-      <p className="text-gray-600 mb-8">
-        Search for attendees by name or email
-      </p>
-
-      <div className="space-y-6">
-        <div className="bg-white border rounded-lg p-6 shadow-sm">
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-semibold">Search</h2>
-          </div>
-
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Name</label>
-              <div className="flex flex-col sm:flex-row gap-2">
-                <input
-                  type="text"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="flex-1 p-3 border rounded-md"
-                  placeholder="Enter attendee name..."
-                  disabled={isLoading}
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter") {
-                      handleSearch();
-                    }
-                  }}
-                />
-                <button
-                  onClick={handleSearch}
-                  disabled={isLoading || !searchQuery.trim()}
-                  className="w-full sm:w-auto px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 whitespace-nowrap">
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="animate-spin" size={20} />
-                      Searching...
-                    </>
-                  ) : (
-                    <>
-                      <Search size={20} />
-                      Search
-                    </>
-                  )}
-                </button>
-              </div>
-              <p className="text-xs text-gray-500 mt-1">
-                Search by attendee name (first, last, or full name)
-              </p>
-            </div>
+      <p className="text-gray-600 mb-8">{MODE_DESCRIPTIONS[mode]}</p>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="inline-flex rounded-md border bg-white p-1">
+          <button
+            onClick={() => setMode("search")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "search"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <Search size={16} />
+            Search
+          </button>
+          <button
+            onClick={() => setMode("scan")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "scan"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <ScanLine size={16} />
+            Scan
+          </button>
+          <button
+            onClick={() => setMode("batch")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "batch"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <Users size={16} />
+            Batch
+          </button>
+          <button
+            onClick={() => setMode("roster")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "roster"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <ListChecks size={16} />
+            Event roster
+          </button>
+          <button
+            onClick={() => setMode("audit")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "audit"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <ShieldAlert size={16} />
+            Seat audit
+          </button>
+          <button
+            onClick={() => setMode("zips")}
+            className={`px-4 py-2 rounded text-sm font-medium flex items-center gap-2 transition-colors ${
+              mode === "zips"
+                ? "bg-blue-600 text-white"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}>
+            <MapPin size={16} />
+            ZIP codes
+          </button>
+        </div>
 
-            {results.length > 0 &&
-              (() => {
-                // Calculate counts for checkboxes
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-
-                let pastCount = 0;
-                let futureCount = 0;
-
-                results.forEach((r) => {
-                  const eventDateParts = r.eventStartDate.split("/");
-                  const eventDateObj = new Date(
-                    parseInt(eventDateParts[2]),
-                    parseInt(eventDateParts[0]) - 1,
-                    parseInt(eventDateParts[1])
-                  );
-                  eventDateObj.setHours(0, 0, 0, 0);
-
-                  if (eventDateObj < today) {
-                    pastCount++;
-                  } else if (eventDateObj > today) {
-                    futureCount++;
-                  }
-                });
-
-                return (
-                  <div className="flex flex-col sm:flex-row gap-4 sm:gap-6">
-                    <div className="flex items-center gap-2">
-                      <input
-                        type="checkbox"
-                        id="showPastTransactions"
-                        checked={showPastTransactions}
-                        onChange={(e) =>
-                          setShowPastTransactions(e.target.checked)
-                        }
-                        className="w-4 h-4 rounded border-gray-300"
-                      />
-                      <label
-                        htmlFor="showPastTransactions"
-                        className="text-sm font-medium cursor-pointer">
-                        Show past transactions ({pastCount})
-                      </label>
-                    </div>
-
-                    <div className="flex items-center gap-2">
-                      <input
-                        type="checkbox"
-                        id="showFutureTransactions"
-                        checked={showFutureTransactions}
-                        onChange={(e) =>
-                          setShowFutureTransactions(e.target.checked)
-                        }
-                        className="w-4 h-4 rounded border-gray-300"
-                      />
-                      <label
-                        htmlFor="showFutureTransactions"
-                        className="text-sm font-medium cursor-pointer">
-                        Show future transactions ({futureCount})
-                      </label>
-                    </div>
-                  </div>
-                );
-              })()}
-          </div>
+        <div className="flex items-center gap-3">
+          {hosts.length > 1 && (
+            <select
+              value={selectedHostId}
+              onChange={(e) => {
+                setSelectedHostId(e.target.value);
+                resetSearch();
+              }}
+              disabled={isLoading}
+              className="p-2 border rounded-md text-sm"
+              aria-label="Venue">
+              <option value="">All venues</option>
+              {hosts.map((host) => (
+                <option key={host.id} value={host.id}>
+                  {host.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <a
+            href={`/kiosk${
+              selectedHostId ? `?hostUserId=${selectedHostId}` : ""
+            }`}
+            className="px-3 py-2 border rounded-md hover:bg-gray-50 flex items-center gap-2 text-sm transition-colors">
+            <Tablet size={16} />
+            Door kiosk
+          </a>
         </div>
+      </div>
 
-        {results.length > 0 &&
-          (() => {
-            // Filter results: always show today, optionally show past/future based on checkboxes
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-
-            // Categorize all results
-            let pastCount = 0;
-            let futureCount = 0;
-
-            results.forEach((r) => {
-              const eventDateParts = r.eventStartDate.split("/");
-              const eventDateObj = new Date(
-                parseInt(eventDateParts[2]),
-                parseInt(eventDateParts[0]) - 1,
-                parseInt(eventDateParts[1])
-              );
-              eventDateObj.setHours(0, 0, 0, 0);
-
-              if (eventDateObj < today) {
-                pastCount++;
-              } else if (eventDateObj > today) {
-                futureCount++;
-              }
-            });
-
-            const filteredResults = results.filter((r) => {
-              const eventDateParts = r.eventStartDate.split("/");
-              const eventDateObj = new Date(
-                parseInt(eventDateParts[2]),
-                parseInt(eventDateParts[0]) - 1,
-                parseInt(eventDateParts[1])
-              );
-              eventDateObj.setHours(0, 0, 0, 0);
-
-              const isToday = eventDateObj.getTime() === today.getTime();
-              const isPast = eventDateObj < today;
-              const isFuture = eventDateObj > today;
-
-              // Always show today
-              if (isToday) return true;
-
-              // Show past if checkbox is checked
-              if (isPast && showPastTransactions) return true;
-
-              // Show future if checkbox is checked
-              if (isFuture && showFutureTransactions) return true;
-
-              return false;
-            });
-
-            return (
-              <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
-                <div className="mb-4">
-                  <h2 className="text-xl font-semibold">
-                    Results ({filteredResults.length})
-                  </h2>
-                </div>
+      {mode === "roster" ? (
+        <EventRoster hostUserId={selectedHostId} hosts={hosts} />
+      ) : mode === "batch" ? (
+        <BatchLookup hostUserId={selectedHostId} />
+      ) : mode === "audit" ? (
+        <SeatAudit hostUserId={selectedHostId} hosts={hosts} />
+      ) : mode === "zips" ? (
+        <ZipExtraction hostUserId={selectedHostId} hosts={hosts} />
+      ) : mode === "scan" ? (
+        <ScanLookup
+          hostUserId={selectedHostId}
+          hosts={hosts}
+          onShowSeatMap={setSeatMapResult}
+          onShowHistory={setHistoryResult}
+          lastNoteChange={lastNoteChange}
+        />
+      ) : (
+        <div className="space-y-6">
+          <div className="bg-white border rounded-lg p-6 shadow-sm">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold">Search</h2>
+            </div>
 
-                {filteredResults.length === 0 ? (
-                  <div className="text-center py-12">
-                    <p className="text-gray-600 mb-4">
-                      No transactions found for today.
-                    </p>
-                    {(pastCount > 0 || futureCount > 0) && (
-                      <p className="text-sm text-gray-500">
-                        {pastCount > 0 && futureCount > 0
-                          ? `Found ${pastCount} past transaction${
-                              pastCount !== 1 ? "s" : ""
-                            } and ${futureCount} future transaction${
-                              futureCount !== 1 ? "s" : ""
-                            }. Check the boxes above to view them.`
-                          : pastCount > 0
-                          ? `Found ${pastCount} past transaction${
-                              pastCount !== 1 ? "s" : ""
-                            }. Check "Show past transactions" to view.`
-                          : `Found ${futureCount} future transaction${
-                              futureCount !== 1 ? "s" : ""
-                            }. Check "Show future transactions" to view.`}
-                      </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Name, email or phone
+                </label>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="flex-1 p-3 border rounded-md"
+                    placeholder="Enter attendee name, email or phone..."
+                    disabled={isLoading}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        handleSearch();
+                      }
+                    }}
+                  />
+                  <button
+                    onClick={handleSearch}
+                    disabled={isLoading || !searchQuery.trim()}
+                    className="w-full sm:w-auto px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2 whitespace-nowrap">
+                    {isLoading ? (
+                      <>
+                        <Loader2 className="animate-spin" size={20} />
+                        Searching...
+                      </>
+                    ) : (
+                      <>
+                        <Search size={20} />
+                        Search
+                      </>
                     )}
+                  </button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {searchQuery.trim()
+                    ? `Searching by ${detectSearchType(searchQuery)}`
+                    : "Search by attendee name (first, last, or full name), buyer email or phone number"}
+                </p>
+              </div>
+
+              {hasSearched && (
+                <div className="flex flex-col sm:flex-row gap-4 sm:gap-6">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="showPastTransactions"
+                      checked={filters.showPast}
+                      onChange={(e) =>
+                        handleFiltersChange({ showPast: e.target.checked })
+                      }
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <label
+                      htmlFor="showPastTransactions"
+                      className="text-sm font-medium cursor-pointer">
+                      Show past transactions ({pastCount})
+                    </label>
                   </div>
-                ) : (
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {filteredResults.map((result, idx) => (
-                      <div
-                        key={idx}
-                        className="border rounded-lg p-4 hover:bg-gray-50 hover:shadow-md transition-all">
-                        {/* Seat Info - Most Prominent */}
-                        <div className="mb-3 pb-3 border-b">
-                          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-1">
-                            Seat
-                          </div>
-                          <div className="text-xl font-bold text-blue-600 whitespace-pre-line">
-                            {result.seatInfo || "-"}
-                          </div>
-                        </div>
-
-                        {/* Other Details */}
-                        <div className="space-y-2 text-sm">
-                          <div className="flex justify-between gap-2">
-                            <span className="font-medium text-gray-600">
-                              Attendee:
-                            </span>
-                            <span className="font-semibold text-right">
-                              {result.payerName || "-"}
-                            </span>
-                          </div>
-                          <div className="flex justify-between gap-2">
-                            <span className="font-medium text-gray-600">
-                              Event:
-                            </span>
-                            <span className="text-right">{result.eventName}</span>
-                          </div>
-                          <div className="flex justify-between gap-2">
-                            <span className="font-medium text-gray-600">
-                              Date:
-                            </span>
-                            <span className="text-right">
-                              {result.eventStartDate} {result.eventStartTime}
-                            </span>
-                          </div>
-                          <div className="flex justify-between gap-2">
-                            <span className="font-medium text-gray-600">
-                              Payment ID:
-                            </span>
-                            <span className="font-mono text-xs text-right">
-                              {result.paymentId}
-                            </span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
+
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="showFutureTransactions"
+                      checked={filters.showFuture}
+                      onChange={(e) =>
+                        handleFiltersChange({ showFuture: e.target.checked })
+                      }
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <label
+                      htmlFor="showFutureTransactions"
+                      className="text-sm font-medium cursor-pointer">
+                      Show future transactions ({futureCount})
+                    </label>
                   </div>
+
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      id="includeInvalid"
+                      checked={filters.includeInvalid}
+                      onChange={(e) =>
+                        handleFiltersChange({
+                          includeInvalid: e.target.checked,
+                        })
+                      }
+                      className="w-4 h-4 rounded border-gray-300"
+                    />
+                    <label
+                      htmlFor="includeInvalid"
+                      className="text-sm font-medium cursor-pointer">
+                      Include refunded &amp; failed
+                      {hiddenInvalid > 0 ? ` (${hiddenInvalid} hidden)` : ""}
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {hasSearched && !isLoading && (
+            <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+              <div className="flex items-center justify-between gap-4 mb-4">
+                <h2 className="text-xl font-semibold flex items-center gap-3">
+                  Results ({pagination?.total ?? results.length})
+                  <LiveBadge isLive={isLive} />
+                </h2>
+                {results.length > 0 && (
+                  <ExportButtons
+                    request={(format) =>
+                      fetch("/api/seat-lookup/export", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({
+                          searchQuery: submittedQuery,
+                          hostUserId: selectedHostId || undefined,
+                          dateWindow: getDateWindows(filters),
+                          includeInvalid: filters.includeInvalid,
+                          format,
+                        }),
+                      })
+                    }
+                  />
                 )}
               </div>
-            );
-          })()}
-      </div>
+
+              {results.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-gray-600 mb-4">
+                    No transactions found for today.
+                  </p>
+                  {(pastCount > 0 || futureCount > 0) && (
+                    <p className="text-sm text-gray-500">
+                      {pastCount > 0 && futureCount > 0
+                        ? `Found ${pastCount} past transaction${
+                            pastCount !== 1 ? "s" : ""
+                          } and ${futureCount} future transaction${
+                            futureCount !== 1 ? "s" : ""
+                          }. Check the boxes above to view them.`
+                        : pastCount > 0
+                        ? `Found ${pastCount} past transaction${
+                            pastCount !== 1 ? "s" : ""
+                          }. Check "Show past transactions" to view.`
+                        : `Found ${futureCount} future transaction${
+                            futureCount !== 1 ? "s" : ""
+                          }. Check "Show future transactions" to view.`}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {results.map((result) => (
+                    <SeatResultCard
+                      key={result.paymentId}
+                      result={result}
+                      venueName={
+                        hosts.length > 1 && !selectedHostId
+                          ? hosts.find((h) => h.id === result.hostUserId)
+                              ?.name || String(result.hostUserId)
+                          : null
+                      }
+                      onCheckInsChange={(checkIns) =>
+                        updateCheckIns(result.paymentId, checkIns)
+                      }
+                      onShowSeatMap={() => setSeatMapResult(result)}
+                      onOpen={() => setHistoryResult(result)}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {pagination?.hasMore && (
+                <div className="mt-6 text-center">
+                  <button
+                    onClick={handleLoadMore}
+                    disabled={isLoadingMore}
+                    className="px-6 py-2 text-sm font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                    {isLoadingMore
+                      ? "Loading..."
+                      : `Load more (${
+                          pagination.total - results.length
+                        } remaining)`}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {seatMapResult && (
+        <SeatMapDialog
+          result={seatMapResult}
+          onClose={() => setSeatMapResult(null)}
+        />
+      )}
+
+      {historyResult && (
+        <AttendeeHistoryDrawer
+          result={historyResult}
+          onClose={() => setHistoryResult(null)}
+          onNotesChange={updateNotes}
+        />
+      )}
     </main>
   );
 }
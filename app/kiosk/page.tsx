@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import toast, { Toaster } from "react-hot-toast";
+import { Loader2, RefreshCw, Search } from "lucide-react";
+import type { CheckInMethod } from "@/components/check-in-button";
+import FreshnessBadge from "@/components/freshness-badge";
+import LiveBadge from "@/components/live-badge";
+import SeatResultCard from "@/components/seat-result-card";
+import type { CheckIn } from "@/lib/check-ins";
+import type { SeatLookupResult } from "@/lib/db";
+import {
+  addSnapshotAttendee,
+  enqueueCheckIn,
+  KioskSnapshot,
+  listQueuedCheckIns,
+  loadSnapshot,
+  removeQueuedCheckIn,
+  saveSnapshot,
+  updateSnapshotCheckIns,
+} from "@/lib/kiosk-store";
+import { matchSeatLookupParty } from "@/lib/seat-lookup-match";
+import { useLivePurchases } from "@/lib/use-live-purchases";
+
+const REFRESH_INTERVAL_MS = 15 * 60 * 1000;
+const MAX_RESULTS = 20;
+
+// Check-ins shown locally for a party checked in while offline, until the
+// server's real ones replace them
+const toLocalCheckIns = (
+  result: SeatLookupResult,
+  checkedInAt: string
+): CheckIn[] =>
+  Array.from({ length: Math.max(result.guestCount, 1) }, (_, i) => ({
+    paymentId: result.paymentId,
+    guestId: result.seats[i]?.guestId ?? null,
+    eventId: result.eventId,
+    hostUserId: result.hostUserId,
+    checkedInAt,
+    checkedInBy: null,
+  }));
+
+// Send a check-in to the API; null means it couldn't be delivered and should be queued
+const sendCheckIn = async (
+  method: CheckInMethod,
+  body: { paymentId: number; hostUserId: number; checkedInAt: string }
+): Promise<CheckIn[] | null> => {
+  let response: Response;
+  try {
+    response = await fetch("/api/check-ins", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  } catch {
+    return null;
+  }
+
+  // Server trouble or an expired session: keep it queued and try again later.
+  // Clerk answers an expired session with a 401, or a 404 HTML page, so only a
+  // JSON error from the route itself counts as a rejection.
+  const isJson = (response.headers.get("content-type") || "").includes(
+    "application/json"
+  );
+  if (response.status >= 500 || response.status === 401 || !isJson) {
+    return null;
+  }
+
+  let data;
+  try {
+    data = await response.json();
+  } catch {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(data.error || "Check-in failed");
+  }
+
+  return method === "POST" ? data.checkIns : [];
+};
+
+// Installable, offline-capable door kiosk: searches a cached copy of today's
+// rosters with the same rules as the server and queues check-ins while offline
+export default function KioskPage() {
+  const [scope, setScope] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<KioskSnapshot | null>(null);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [searchQuery, setSearchQuery] = useState("");
+  const isFlushingRef = useRef(false);
+
+  useEffect(() => {
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((error) => {
+        console.error("Service worker registration failed:", error);
+      });
+    }
+
+    setScope(
+      new URLSearchParams(window.location.search).get("hostUserId") || ""
+    );
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, []);
+
+  // Replay queued check-ins in order; stops at the first one the server can't take yet.
+  // Returns how many are still waiting.
+  const flushQueue = useCallback(async () => {
+    if (isFlushingRef.current) {
+      return (await listQueuedCheckIns()).length;
+    }
+    isFlushingRef.current = true;
+
+    try {
+      const queued = await listQueuedCheckIns();
+      let remaining = queued.length;
+
+      for (const entry of queued) {
+        try {
+          const sent = await sendCheckIn(entry.method, {
+            paymentId: entry.paymentId,
+            hostUserId: entry.hostUserId,
+            checkedInAt: entry.queuedAt,
+          });
+          if (sent === null) break;
+        } catch (error) {
+          // Rejected outright (e.g. payment no longer in scope); retrying won't help
+          toast.error(
+            `Queued check-in for payment ${entry.paymentId} was rejected: ${
+              error instanceof Error ? error.message : "unknown error"
+            }`
+          );
+        }
+        await removeQueuedCheckIn(entry.id!);
+        remaining--;
+      }
+
+      setPendingCount(remaining);
+      return remaining;
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (scope === null || !navigator.onLine) return;
+
+    setIsRefreshing(true);
+
+    try {
+      // Don't overwrite check-ins that only exist locally
+      if ((await flushQueue()) > 0) return;
+
+      const response = await fetch(
+        `/api/kiosk/rosters${scope ? `?hostUserId=${scope}` : ""}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to refresh rosters");
+      }
+
+      const next: KioskSnapshot = {
+        scope,
+        fetchedAt: data.fetchedAt,
+        rosters: data.rosters,
+      };
+      await saveSnapshot(next);
+      setSnapshot(next);
+    } catch (error) {
+      console.error("Kiosk refresh failed:", error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [scope, flushQueue]);
+
+  // Show the cached roster straight away; the effect below refreshes it
+  useEffect(() => {
+    if (scope === null) return;
+
+    loadSnapshot(scope).then(setSnapshot);
+    listQueuedCheckIns().then((queued) => setPendingCount(queued.length));
+  }, [scope]);
+
+  // Refresh (and sync queued check-ins) on load, whenever connectivity returns,
+  // and periodically while online
+  useEffect(() => {
+    if (!isOnline) return;
+
+    refresh();
+    const timer = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, refresh]);
+
+  // Walk-up purchases land in the cached roster while online, so they're
+  // searchable at the door without waiting for the next refresh
+  const isLive = useLivePurchases(
+    scope || "",
+    async (purchase) => {
+      if (scope === null) return;
+      const updated = await addSnapshotAttendee(scope, purchase);
+      if (updated) {
+        setSnapshot(updated);
+      }
+    },
+    isOnline && scope !== null
+  );
+
+  const matches = useMemo(() => {
+    if (!snapshot || !searchQuery.trim()) return [];
+
+    return snapshot.rosters
+      .flatMap((roster) => roster.attendees)
+      .flatMap((attendee) => {
+        const match = matchSeatLookupParty(
+          searchQuery,
+          {
+            firstName: attendee.payerFirstName,
+            lastName: attendee.payerLastName,
+            email: attendee.payerEmail,
+            phone: attendee.payerPhone,
+          },
+          // Snapshots cached before guest search have no guest names
+          attendee.guests || []
+        );
+        return match === null ? [] : [{ ...attendee, ...match }];
+      })
+      .sort((a, b) => b.matchScore - a.matchScore);
+  }, [snapshot, searchQuery]);
+
+  const submitCheckIn =
+    (result: SeatLookupResult) =>
+    async (method: CheckInMethod): Promise<CheckIn[]> => {
+      const checkedInAt = new Date().toISOString();
+      const body = {
+        paymentId: result.paymentId,
+        hostUserId: result.hostUserId,
+        checkedInAt,
+      };
+
+      const sent = navigator.onLine ? await sendCheckIn(method, body) : null;
+      if (sent !== null) {
+        return sent;
+      }
+
+      await enqueueCheckIn({
+        method,
+        paymentId: result.paymentId,
+        hostUserId: result.hostUserId,
+        queuedAt: checkedInAt,
+      });
+      setPendingCount((count) => count + 1);
+      return method === "POST" ? toLocalCheckIns(result, checkedInAt) : [];
+    };
+
+  const applyCheckIns = async (paymentId: number, checkIns: CheckIn[]) => {
+    if (scope === null) return;
+    const updated = await updateSnapshotCheckIns(scope, paymentId, checkIns);
+    if (updated) {
+      setSnapshot(updated);
+    }
+  };
+
+  const totalAttendees =
+    snapshot?.rosters.reduce(
+      (total, roster) => total + roster.attendees.length,
+      0
+    ) || 0;
+
+  return (
+    <main className="min-h-screen p-4 sm:p-8 max-w-5xl mx-auto">
+      <Toaster position="top-right" />
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Door Kiosk</h1>
+          <p className="text-gray-600">
+            {snapshot
+              ? `${snapshot.rosters.length} show${
+                  snapshot.rosters.length !== 1 ? "s" : ""
+                } today, ${totalAttendees} parties`
+              : "Today's rosters, available offline"}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <FreshnessBadge
+            fetchedAt={snapshot?.fetchedAt || null}
+            isOnline={isOnline}
+            pendingCount={pendingCount}
+          />
+          {isOnline && <LiveBadge isLive={isLive} />}
+          <button
+            onClick={refresh}
+            disabled={!isOnline || isRefreshing}
+            className="p-2 border rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            aria-label="Refresh rosters">
+            {isRefreshing ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <RefreshCw size={18} />
+            )}
+          </button>
+        </div>
+      </div>
+
+      <div className="relative mb-6">
+        <Search
+          size={20}
+          className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400"
+        />
+        <input
+          type="text"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          placeholder="Name, email or phone"
+          autoFocus
+          className="w-full pl-12 pr-4 py-4 text-lg border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {!snapshot ? (
+        <p className="text-center text-gray-600 py-12">
+          {isOnline
+            ? "Loading today's rosters..."
+            : "No roster cached on this device yet. Connect to load today's shows."}
+        </p>
+      ) : snapshot.rosters.length === 0 ? (
+        <p className="text-center text-gray-600 py-12">No shows today.</p>
+      ) : !searchQuery.trim() ? (
+        <ul className="divide-y bg-white border rounded-lg">
+          {snapshot.rosters.map((roster) => (
+            <li
+              key={roster.event.id}
+              className="flex justify-between gap-4 px-4 py-3 text-sm">
+              <span className="font-medium">{roster.event.name}</span>
+              <span className="text-gray-600">
+                {roster.event.startTime} ·{" "}
+                {
+                  roster.attendees.filter(
+                    (attendee) => attendee.checkIns.length > 0
+                  ).length
+                }{" "}
+                / {roster.attendees.length} parties in
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : matches.length === 0 ? (
+        <p className="text-center text-gray-600 py-12">
+          No attendees match &quot;{searchQuery.trim()}&quot;.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {matches.slice(0, MAX_RESULTS).map((result) => (
+            <SeatResultCard
+              key={result.paymentId}
+              result={result}
+              onCheckInsChange={(checkIns) =>
+                applyCheckIns(result.paymentId, checkIns)
+              }
+              submitCheckIn={submitCheckIn(result)}
+            />
+          ))}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,24 @@
+import type { MetadataRoute } from "next";
+
+// Web app manifest so the door kiosk can be installed to a tablet's home screen
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Gotham Seat Lookup Kiosk",
+    short_name: "Seat Kiosk",
+    description: "Offline-capable door check-in for today's shows",
+    start_url: "/kiosk",
+    scope: "/",
+    display: "standalone",
+    orientation: "portrait",
+    background_color: "#ffffff",
+    theme_color: "#2563eb",
+    icons: [
+      {
+        src: "/kiosk-icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ],
+  };
+}
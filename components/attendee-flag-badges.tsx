@@ -0,0 +1,46 @@
+"use client";
+
+import {
+  ATTENDEE_FLAG_LABELS,
+  AttendeeFlag,
+  AttendeeNoteView,
+} from "@/lib/attendee-flags";
+
+const FLAG_STYLES: Record<AttendeeFlag, string> = {
+  vip: "bg-purple-100 text-purple-800",
+  comp: "bg-teal-100 text-teal-800",
+  birthday: "bg-pink-100 text-pink-800",
+  do_not_admit: "bg-red-600 text-white",
+};
+
+interface AttendeeFlagBadgesProps {
+  notes: AttendeeNoteView[];
+  className?: string;
+}
+
+// Staff flags on an attendee as small pills; the note text shows on hover
+export default function AttendeeFlagBadges({
+  notes,
+  className = "",
+}: AttendeeFlagBadgesProps) {
+  const badges = notes.flatMap((note) =>
+    note.flags.map((flag) => ({ flag, note }))
+  );
+
+  if (badges.length === 0) {
+    return null;
+  }
+
+  return (
+    <span className={`inline-flex flex-wrap gap-1 ${className}`}>
+      {badges.map(({ flag, note }) => (
+        <span
+          key={`${note.id}-${flag}`}
+          className={`text-xs font-medium px-2 py-0.5 rounded-full ${FLAG_STYLES[flag]}`}
+          title={note.note || undefined}>
+          {ATTENDEE_FLAG_LABELS[flag]}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, X } from "lucide-react";
+import AttendeeNotesPanel from "@/components/attendee-notes-panel";
+import type { AttendeeNoteView } from "@/lib/attendee-flags";
+import type { AttendeeHistory } from "@/lib/attendee-history";
+import type { SeatLookupResult } from "@/lib/db";
+import {
+  formatAmount,
+  isAdmissible,
+  PAYMENT_STATE_LABELS,
+} from "@/lib/payment-status";
+import { classifyEventDate } from "@/lib/timezone";
+
+interface AttendeeHistoryDrawerProps {
+  result: SeatLookupResult;
+  onClose: () => void;
+  onNotesChange?: (note: AttendeeNoteView, isDeleted: boolean) => void;
+}
+
+const HistoryRow = ({
+  payment,
+  isCurrent,
+}: {
+  payment: SeatLookupResult;
+  isCurrent: boolean;
+}) => (
+  <li
+    className={`px-4 py-3 text-sm ${
+      isCurrent ? "bg-blue-50 border-l-4 border-blue-500" : ""
+    }`}>
+    <div className="flex justify-between gap-4">
+      <div className="font-medium">{payment.eventName}</div>
+      <div className="text-right whitespace-nowrap">
+        {formatAmount(payment.netAmount)}
+      </div>
+    </div>
+    <div className="flex justify-between gap-4 text-gray-600">
+      <span>
+        {payment.eventStartDate} {payment.eventStartTime}
+      </span>
+      <span className="font-mono text-xs">#{payment.paymentId}</span>
+    </div>
+    <div className="mt-1 text-gray-700 whitespace-pre-line">
+      {payment.seatInfo ||
+        `${payment.guestCount} guest${
+          payment.guestCount !== 1 ? "s" : ""
+        }, no seats assigned`}
+    </div>
+    <div className="mt-1 flex flex-wrap gap-2 text-xs font-medium">
+      {payment.paymentState !== "valid" && (
+        <span
+          className={`px-2 py-0.5 rounded-full ${
+            isAdmissible(payment.paymentState)
+              ? "bg-yellow-100 text-yellow-800"
+              : "bg-red-100 text-red-800"
+          }`}>
+          {PAYMENT_STATE_LABELS[payment.paymentState]}
+          {payment.refundAmount > 0 &&
+            ` · ${formatAmount(payment.refundAmount)} refunded`}
+        </span>
+      )}
+      {payment.checkIns.length > 0 && (
+        <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800 flex items-center gap-1">
+          <CheckCircle2 size={12} />
+          Checked in
+        </span>
+      )}
+    </div>
+  </li>
+);
+
+// Side drawer with everything the host has sold to one attendee: staff notes, spend,
+// refunds, first visit and a timeline of past and upcoming shows
+export default function AttendeeHistoryDrawer({
+  result,
+  onClose,
+  onNotesChange,
+}: AttendeeHistoryDrawerProps) {
+  const [history, setHistory] = useState<AttendeeHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/payments/${result.paymentId}/history?hostUserId=${result.hostUserId}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load attendee history");
+        }
+
+        setHistory(data);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load attendee history"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [result.paymentId, result.hostUserId]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const upcoming =
+    history?.payments.filter(
+      (payment) =>
+        classifyEventDate(payment.eventStartAt, payment.timezone) !== "past"
+    ) || [];
+  const past =
+    history?.payments.filter(
+      (payment) =>
+        classifyEventDate(payment.eventStartAt, payment.timezone) === "past"
+    ) || [];
+  const firstVisit = history?.payments.find(
+    (payment) => payment.eventStartAt === history.summary.firstVisitAt
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex justify-end"
+      onClick={onClose}>
+      <aside
+        className="bg-white h-full w-full max-w-md shadow-lg overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+        aria-label="Attendee history">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold">
+              {result.payerName || "Unknown attendee"}
+            </h2>
+            <p className="text-sm text-gray-600 break-all">
+              {[result.payerEmail, result.payerPhone]
+                .filter(Boolean)
+                .join(" · ") || "No contact details"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            aria-label="Close attendee history">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-gray-400" size={32} />
+          </div>
+        ) : error || !history ? (
+          <p className="text-center text-red-600 py-12 px-6">{error}</p>
+        ) : (
+          <div className="p-6 space-y-6">
+            <AttendeeNotesPanel result={result} onChange={onNotesChange} />
+
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="border rounded-lg p-3">
+                <div className="text-gray-500">Total spend</div>
+                <div className="text-lg font-semibold">
+                  {formatAmount(history.summary.totalSpend)}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-gray-500">Shows</div>
+                <div className="text-lg font-semibold">
+                  {history.summary.eventCount}
+                  {history.summary.upcomingCount > 0 && (
+                    <span className="text-sm font-normal text-gray-600">
+                      {" "}
+                      ({history.summary.upcomingCount} upcoming)
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-gray-500">First visit</div>
+                <div className="text-lg font-semibold">
+                  {firstVisit ? firstVisit.eventStartDate : "Not yet"}
+                </div>
+              </div>
+              <div className="border rounded-lg p-3">
+                <div className="text-gray-500">Refunded</div>
+                <div className="text-lg font-semibold">
+                  {formatAmount(history.summary.totalRefunded)}
+                  {history.summary.refundCount > 0 && (
+                    <span className="text-sm font-normal text-gray-600">
+                      {" "}
+                      ({history.summary.refundCount} payment
+                      {history.summary.refundCount !== 1 ? "s" : ""})
+                    </span>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {[
+              { title: "Upcoming", payments: upcoming },
+              { title: "Past", payments: past },
+            ].map(
+              (section) =>
+                section.payments.length > 0 && (
+                  <section key={section.title}>
+                    <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                      {section.title} ({section.payments.length})
+                    </h3>
+                    <ul className="border rounded-lg divide-y">
+                      {section.payments.map((payment) => (
+                        <HistoryRow
+                          key={payment.paymentId}
+                          payment={payment}
+                          isCurrent={payment.paymentId === history.paymentId}
+                        />
+                      ))}
+                    </ul>
+                  </section>
+                )
+            )}
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+}
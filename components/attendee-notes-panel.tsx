@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { Loader2, Trash2 } from "lucide-react";
+import {
+  ATTENDEE_FLAG_LABELS,
+  ATTENDEE_FLAGS,
+  AttendeeFlag,
+  AttendeeNote,
+  AttendeeNoteView,
+  MAX_NOTE_LENGTH,
+  NotePermissions,
+  RESTRICTED_FLAGS,
+} from "@/lib/attendee-flags";
+import type { SeatLookupResult } from "@/lib/db";
+
+interface AttendeeNotesPanelProps {
+  result: SeatLookupResult;
+  // Called with the note after it's saved or deleted
+  onChange?: (note: AttendeeNoteView, isDeleted: boolean) => void;
+}
+
+const ACTION_LABELS: Record<AttendeeNote["history"][number]["action"], string> =
+  {
+    created: "Added",
+    updated: "Edited",
+    deleted: "Deleted",
+  };
+
+// Flags and a free-text note on the buyer or attendee behind a payment, with who
+// changed them and when. What can be changed depends on the user's role for the host.
+export default function AttendeeNotesPanel({
+  result,
+  onChange,
+}: AttendeeNotesPanelProps) {
+  const [note, setNote] = useState<AttendeeNote | null>(null);
+  const [permissions, setPermissions] = useState<NotePermissions | null>(null);
+  const [flags, setFlags] = useState<AttendeeFlag[]>([]);
+  const [text, setText] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const showNote = (loaded: AttendeeNote | null) => {
+    setNote(loaded);
+    setFlags(loaded?.flags || []);
+    setText(loaded?.note || "");
+  };
+
+  useEffect(() => {
+    const loadNote = async () => {
+      setIsLoading(true);
+
+      try {
+        const response = await fetch(
+          `/api/attendee-notes?paymentId=${result.paymentId}&hostUserId=${result.hostUserId}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load staff notes");
+        }
+
+        showNote(data.note);
+        setPermissions(data.permissions);
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load staff notes"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadNote();
+  }, [result.paymentId, result.hostUserId]);
+
+  const toggleFlag = (flag: AttendeeFlag) => {
+    setFlags((current) =>
+      current.includes(flag)
+        ? current.filter((f) => f !== flag)
+        : [...current, flag]
+    );
+  };
+
+  const saveNote = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(
+        note ? `/api/attendee-notes/${note.id}` : "/api/attendee-notes",
+        {
+          method: note ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            paymentId: result.paymentId,
+            hostUserId: result.hostUserId,
+            flags,
+            note: text,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save staff note");
+      }
+
+      showNote(data.note);
+      onChange?.(data.note, false);
+      toast.success("Staff note saved");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to save staff note"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteNote = async () => {
+    if (!note) return;
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/attendee-notes/${note.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to delete staff note");
+      }
+
+      showNote(null);
+      onChange?.(data.note, true);
+      toast.success("Staff note deleted");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to delete staff note"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="animate-spin text-gray-400" size={24} />
+      </div>
+    );
+  }
+
+  const canEdit = !!permissions?.canEdit;
+  const isDirty =
+    text.trim() !== (note?.note || "") ||
+    flags.length !== (note?.flags.length || 0) ||
+    flags.some((flag) => !note?.flags.includes(flag));
+
+  return (
+    <section>
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">
+        Staff notes
+      </h3>
+      <div className="border rounded-lg p-4 space-y-3 text-sm">
+        <div className="flex flex-wrap gap-2">
+          {ATTENDEE_FLAGS.map((flag) => {
+            const isLocked =
+              !canEdit ||
+              (RESTRICTED_FLAGS.includes(flag) &&
+                !permissions?.canEditRestricted);
+
+            return (
+              <button
+                key={flag}
+                type="button"
+                onClick={() => toggleFlag(flag)}
+                disabled={isLocked || isSaving}
+                title={
+                  isLocked && canEdit
+                    ? "Only managers can change this"
+                    : undefined
+                }
+                className={`px-3 py-1 rounded-full border text-xs font-medium transition-colors disabled:cursor-not-allowed ${
+                  flags.includes(flag)
+                    ? flag === "do_not_admit"
+                      ? "bg-red-600 border-red-600 text-white"
+                      : "bg-blue-600 border-blue-600 text-white"
+                    : "text-gray-600 hover:bg-gray-100 disabled:hover:bg-transparent"
+                } ${isLocked ? "opacity-60" : ""}`}>
+                {ATTENDEE_FLAG_LABELS[flag]}
+              </button>
+            );
+          })}
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={!canEdit || isSaving}
+          maxLength={MAX_NOTE_LENGTH}
+          rows={3}
+          className="w-full p-2 border rounded-md disabled:bg-gray-50"
+          placeholder={canEdit ? "Anything door staff should know" : "No note"}
+        />
+
+        {canEdit ? (
+          <div className="flex justify-between gap-2">
+            {note && permissions?.canDelete ? (
+              <button
+                onClick={deleteNote}
+                disabled={isSaving}
+                className="px-3 py-1.5 rounded-md text-red-600 hover:bg-red-50 disabled:opacity-50 flex items-center gap-1 transition-colors">
+                <Trash2 size={14} />
+                Delete
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={saveNote}
+              disabled={
+                isSaving || !isDirty || (flags.length === 0 && !text.trim())
+              }
+              className="px-4 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-colors">
+              {isSaving && <Loader2 size={14} className="animate-spin" />}
+              {note ? "Save changes" : "Add note"}
+            </button>
+          </div>
+        ) : (
+          <p className="text-gray-500">
+            Your role can view staff notes but not change them.
+          </p>
+        )}
+
+        {note && note.history.length > 0 && (
+          <ol className="border-t pt-3 space-y-2 text-xs text-gray-600">
+            {[...note.history].reverse().map((change) => (
+              <li key={`${change.action}-${change.changedAt}`}>
+                <div>
+                  <span className="font-medium text-gray-800">
+                    {ACTION_LABELS[change.action]}
+                  </span>{" "}
+                  by {change.changedBy} ·{" "}
+                  {new Date(change.changedAt).toLocaleString()}
+                </div>
+                <div>
+                  {[
+                    ...change.flags.map((flag) => ATTENDEE_FLAG_LABELS[flag]),
+                    change.note && `“${change.note}”`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import { Loader2, Upload, Users } from "lucide-react";
+import CheckInButton from "@/components/check-in-button";
+import type { CheckIn } from "@/lib/check-ins";
+import type { BatchLookupEntry, SeatLookupResult } from "@/lib/db";
+import {
+  BatchLookupRow,
+  getBatchRowName,
+  MAX_BATCH_ROWS,
+  parseBatchInput,
+} from "@/lib/batch-lookup";
+
+interface BatchLookupProps {
+  hostUserId: string;
+}
+
+interface BatchLookupResponse {
+  matched: BatchLookupEntry[];
+  ambiguous: BatchLookupEntry[];
+  notFound: BatchLookupEntry[];
+}
+
+// What the coordinator gave us for a row, for showing next to the match
+const describeRow = (row: BatchLookupRow) =>
+  getBatchRowName(row) || row.email || row.transactionId || "-";
+
+const MatchLine = ({
+  result,
+  onCheckInsChange,
+}: {
+  result: SeatLookupResult;
+  onCheckInsChange?: (checkIns: CheckIn[]) => void;
+}) => (
+  <div className="flex flex-wrap items-start justify-between gap-3">
+    <div>
+      <div className="font-medium">
+        {result.matchedGuest
+          ? `${result.matchedGuest.name} (guest of ${
+              result.payerName || "unknown buyer"
+            })`
+          : result.payerName || "-"}
+        <span className="ml-2 text-xs text-gray-500">
+          {Math.round(result.matchScore * 100)}% match
+        </span>
+      </div>
+      <div className="text-gray-600">
+        {result.eventName} · {result.eventStartDate} {result.eventStartTime}
+      </div>
+      <div className="font-semibold text-blue-600 whitespace-pre-line">
+        {result.matchedGuest?.seat?.label || result.seatInfo || "No seat"}
+      </div>
+    </div>
+    {onCheckInsChange && (
+      <CheckInButton result={result} onChange={onCheckInsChange} compact />
+    )}
+  </div>
+);
+
+// Look up a group coordinator's whole list at once: pasted lines or a CSV in the
+// example.csv shape (first, last, email, transaction ID)
+export default function BatchLookup({ hostUserId }: BatchLookupProps) {
+  const [input, setInput] = useState("");
+  const [includePast, setIncludePast] = useState(false);
+  const [response, setResponse] = useState<BatchLookupResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const parsedRows = useMemo(() => parseBatchInput(input), [input]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setInput(await file.text());
+    setResponse(null);
+  };
+
+  const runLookup = async () => {
+    if (parsedRows.length === 0) {
+      toast.error("Paste a list of names or upload a CSV");
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const res = await fetch("/api/seat-lookup/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          input,
+          hostUserId: hostUserId || undefined,
+          dateWindow: includePast
+            ? ["past", "today", "upcoming"]
+            : ["today", "upcoming"],
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Batch lookup failed");
+      }
+
+      setResponse(data);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Batch lookup failed"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateCheckIns = (paymentId: number, checkIns: CheckIn[]) => {
+    setResponse((current) =>
+      current
+        ? {
+            ...current,
+            matched: current.matched.map((entry) => ({
+              ...entry,
+              results: entry.results.map((result) =>
+                result.paymentId === paymentId
+                  ? { ...result, checkIns }
+                  : result
+              ),
+            })),
+          }
+        : current
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border rounded-lg p-6 shadow-sm space-y-4">
+        <textarea
+          value={input}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setResponse(null);
+          }}
+          rows={8}
+          className="w-full p-3 border rounded-md font-mono text-sm"
+          placeholder={
+            "One per line: a name, an email or a transaction ID\nor CSV rows: first,last,email,transaction ID"
+          }
+        />
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <label className="px-3 py-2 border rounded-md hover:bg-gray-50 flex items-center gap-2 cursor-pointer transition-colors">
+              <Upload size={16} />
+              Upload CSV
+              <input
+                type="file"
+                accept=".csv,.txt,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={includePast}
+                onChange={(e) => setIncludePast(e.target.checked)}
+              />
+              Include past events
+            </label>
+            <span
+              className={
+                parsedRows.length > MAX_BATCH_ROWS
+                  ? "text-red-600"
+                  : "text-gray-600"
+              }>
+              {parsedRows.length} row{parsedRows.length !== 1 ? "s" : ""}
+              {parsedRows.length > MAX_BATCH_ROWS &&
+                ` (at most ${MAX_BATCH_ROWS})`}
+            </span>
+          </div>
+          <button
+            onClick={runLookup}
+            disabled={
+              isLoading ||
+              parsedRows.length === 0 ||
+              parsedRows.length > MAX_BATCH_ROWS
+            }
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors">
+            {isLoading ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <Users size={18} />
+            )}
+            Look up all
+          </button>
+        </div>
+      </div>
+
+      {response && (
+        <div className="space-y-6">
+          <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+            <h2 className="text-xl font-semibold mb-4">
+              Matched ({response.matched.length})
+            </h2>
+            {response.matched.length === 0 ? (
+              <p className="text-gray-600 text-sm">No confident matches.</p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {response.matched.map((entry) => (
+                  <li
+                    key={entry.row.line}
+                    className="py-3 grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <div className="text-gray-500">
+                      {entry.row.line}. {describeRow(entry.row)}
+                    </div>
+                    <div className="md:col-span-2">
+                      {entry.results.map((result) => (
+                        <MatchLine
+                          key={result.paymentId}
+                          result={result}
+                          onCheckInsChange={(checkIns) =>
+                            updateCheckIns(result.paymentId, checkIns)
+                          }
+                        />
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {response.ambiguous.length > 0 && (
+            <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+              <h2 className="text-xl font-semibold mb-1">
+                Ambiguous ({response.ambiguous.length})
+              </h2>
+              <p className="text-sm text-gray-600 mb-4">
+                More than one booking fits these, or the best fit is weak. Check
+                with the guest.
+              </p>
+              <ul className="divide-y text-sm">
+                {response.ambiguous.map((entry) => (
+                  <li
+                    key={entry.row.line}
+                    className="py-3 grid grid-cols-1 md:grid-cols-3 gap-2">
+                    <div className="text-gray-500">
+                      {entry.row.line}. {describeRow(entry.row)}
+                    </div>
+                    <div className="md:col-span-2 space-y-3">
+                      {entry.results.map((result) => (
+                        <MatchLine key={result.paymentId} result={result} />
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {response.notFound.length > 0 && (
+            <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+              <h2 className="text-xl font-semibold mb-4">
+                Not found ({response.notFound.length})
+              </h2>
+              <ul className="text-sm text-gray-700 space-y-1">
+                {response.notFound.map((entry) => (
+                  <li key={entry.row.line}>
+                    {entry.row.line}. {describeRow(entry.row)}
+                    {entry.row.email &&
+                      getBatchRowName(entry.row) &&
+                      ` · ${entry.row.email}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
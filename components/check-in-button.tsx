@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { CheckCircle2, Loader2, Undo2 } from "lucide-react";
+import type { CheckIn } from "@/lib/check-ins";
+import type { SeatLookupResult } from "@/lib/db";
+import { formatEventTime } from "@/lib/timezone";
+
+export type CheckInMethod = "POST" | "DELETE";
+
+interface CheckInButtonProps {
+  result: SeatLookupResult;
+  onChange: (checkIns: CheckIn[]) => void;
+  compact?: boolean;
+  // Replaces the /api/check-ins call (the kiosk queues check-ins while offline);
+  // resolves to the party's check-ins after the change
+  submit?: (method: CheckInMethod) => Promise<CheckIn[]>;
+}
+
+const submitToApi = async (
+  result: SeatLookupResult,
+  method: CheckInMethod
+): Promise<CheckIn[]> => {
+  const response = await fetch("/api/check-ins", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      paymentId: result.paymentId,
+      hostUserId: result.hostUserId,
+    }),
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || "Check-in failed");
+  }
+
+  return method === "POST" ? data.checkIns : [];
+};
+
+// Check a whole party in (or undo it) and show when they arrived
+export default function CheckInButton({
+  result,
+  onChange,
+  compact = false,
+  submit,
+}: CheckInButtonProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const partySize = Math.max(result.guestCount, 1);
+  const arrived = result.checkIns.length;
+  const firstArrival = result.checkIns
+    .map((checkIn) => checkIn.checkedInAt)
+    .sort()[0];
+
+  const update = async (method: CheckInMethod) => {
+    setIsSaving(true);
+
+    try {
+      onChange(
+        submit ? await submit(method) : await submitToApi(result, method)
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Check-in failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (arrived === 0) {
+    return (
+      <button
+        onClick={() => update("POST")}
+        disabled={isSaving}
+        className={`flex items-center justify-center gap-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:bg-gray-400 transition-colors ${
+          compact ? "px-3 py-1 text-xs" : "w-full py-2 text-sm"
+        }`}>
+        {isSaving ? (
+          <Loader2 className="animate-spin" size={16} />
+        ) : (
+          <CheckCircle2 size={16} />
+        )}
+        Check in{partySize > 1 ? ` (${partySize})` : ""}
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className={`flex items-center justify-between gap-2 text-green-700 ${
+        compact
+          ? "text-xs"
+          : "text-sm bg-green-50 border border-green-200 rounded-md px-3 py-2"
+      }`}>
+      <span className="flex items-center gap-1 font-medium">
+        <CheckCircle2 size={16} />
+        {arrived < partySize
+          ? `${arrived} of ${partySize} in`
+          : "Checked in"}{" "}
+        {firstArrival && formatEventTime(firstArrival, result.timezone)}
+      </span>
+      <button
+        onClick={() => update("DELETE")}
+        disabled={isSaving}
+        className="flex items-center gap-1 text-gray-500 hover:text-gray-800"
+        title="Undo check-in">
+        {isSaving ? (
+          <Loader2 className="animate-spin" size={14} />
+        ) : (
+          <Undo2 size={14} />
+        )}
+        {!compact && "Undo"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import toast from "react-hot-toast";
+import { List, Loader2, Map as MapIcon, Printer } from "lucide-react";
+import AttendeeFlagBadges from "@/components/attendee-flag-badges";
+import CheckInButton from "@/components/check-in-button";
+import ExportButtons from "@/components/export-buttons";
+import LiveBadge from "@/components/live-badge";
+import SeatMap from "@/components/seat-map";
+import { ATTENDEE_FLAG_LABELS } from "@/lib/attendee-flags";
+import type { CheckIn } from "@/lib/check-ins";
+import type { HostEvent, SeatLookupResult } from "@/lib/db";
+import type { HostConfig } from "@/lib/hosts";
+import { PAYMENT_STATE_LABELS } from "@/lib/payment-status";
+import {
+  MIN_MATCH_SCORE,
+  normalizeName,
+  scoreNameMatch,
+} from "@/lib/name-match";
+import { compareSeats } from "@/lib/seats";
+import { classifyEventDate } from "@/lib/timezone";
+import { useLivePurchases } from "@/lib/use-live-purchases";
+
+type RosterSort = "seat" | "lastName";
+type RosterView = "list" | "map";
+
+interface EventRosterProps {
+  hostUserId: string;
+  hosts: HostConfig[];
+}
+
+// Parties sort by their first seat; attendees without a seat go to the bottom
+const compareBySeat = (a: SeatLookupResult, b: SeatLookupResult) =>
+  compareSeats(a.seats[0], b.seats[0]);
+
+const compareLastNames = (a: SeatLookupResult, b: SeatLookupResult) => {
+  const byLast = (a.payerLastName || "").localeCompare(b.payerLastName || "");
+  return byLast !== 0
+    ? byLast
+    : (a.payerFirstName || "").localeCompare(b.payerFirstName || "");
+};
+
+// Matches on plain substrings of name, email, seat and staff flags, or on a fuzzy name match
+const matchesFilter = (attendee: SeatLookupResult, filter: string) => {
+  const needle = filter.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack = [
+    attendee.payerName,
+    attendee.payerEmail,
+    attendee.seatInfo,
+    ...attendee.notes.flatMap((note) =>
+      note.flags.map((flag) => ATTENDEE_FLAG_LABELS[flag])
+    ),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+  if (
+    haystack.includes(needle) ||
+    normalizeName(attendee.payerName).includes(normalizeName(needle))
+  ) {
+    return true;
+  }
+
+  return (
+    scoreNameMatch(filter, attendee.payerFirstName, attendee.payerLastName) >=
+    MIN_MATCH_SCORE
+  );
+};
+
+export default function EventRoster({ hostUserId, hosts }: EventRosterProps) {
+  const [events, setEvents] = useState<HostEvent[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState<string>("");
+  const [attendees, setAttendees] = useState<SeatLookupResult[]>([]);
+  const [isLoadingEvents, setIsLoadingEvents] = useState(false);
+  const [isLoadingRoster, setIsLoadingRoster] = useState(false);
+  const [sortBy, setSortBy] = useState<RosterSort>("seat");
+  const [filter, setFilter] = useState("");
+  const [view, setView] = useState<RosterView>("list");
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      setIsLoadingEvents(true);
+      setEvents([]);
+      setSelectedEventId("");
+      setAttendees([]);
+
+      try {
+        const params = hostUserId ? `?hostUserId=${hostUserId}` : "";
+        const response = await fetch(`/api/events${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load events");
+        }
+
+        const loadedEvents: HostEvent[] = data.events || [];
+        setEvents(loadedEvents);
+
+        // Tonight's show is almost always the first one
+        if (loadedEvents.length > 0) {
+          setSelectedEventId(String(loadedEvents[0].id));
+        }
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load events"
+        );
+      } finally {
+        setIsLoadingEvents(false);
+      }
+    };
+
+    loadEvents();
+  }, [hostUserId]);
+
+  useEffect(() => {
+    if (!selectedEventId) return;
+
+    const loadRoster = async () => {
+      setIsLoadingRoster(true);
+      setAttendees([]);
+
+      try {
+        const params = hostUserId ? `?hostUserId=${hostUserId}` : "";
+        const response = await fetch(
+          `/api/events/${selectedEventId}/roster${params}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load roster");
+        }
+
+        setAttendees(data.attendees || []);
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load roster"
+        );
+      } finally {
+        setIsLoadingRoster(false);
+      }
+    };
+
+    loadRoster();
+  }, [selectedEventId, hostUserId]);
+
+  const visibleAttendees = useMemo(
+    () =>
+      attendees
+        .filter((attendee) => matchesFilter(attendee, filter))
+        .sort(sortBy === "seat" ? compareBySeat : compareLastNames),
+    [attendees, filter, sortBy]
+  );
+
+  // On the seat map, the parties matching the filter are highlighted
+  const highlightedPaymentIds = useMemo(
+    () =>
+      filter.trim()
+        ? visibleAttendees.map((attendee) => attendee.paymentId)
+        : [],
+    [filter, visibleAttendees]
+  );
+
+  const updateCheckIns = (paymentId: number, checkIns: CheckIn[]) => {
+    setAttendees((current) =>
+      current.map((attendee) =>
+        attendee.paymentId === paymentId ? { ...attendee, checkIns } : attendee
+      )
+    );
+  };
+
+  // Guests checked in versus guests expected; a party without guest rows counts as one
+  const arrivalCounts = useMemo(
+    () =>
+      attendees.reduce(
+        (counts, attendee) => ({
+          arrived: counts.arrived + attendee.checkIns.length,
+          expected: counts.expected + Math.max(attendee.guestCount, 1),
+        }),
+        { arrived: 0, expected: 0 }
+      ),
+    [attendees]
+  );
+
+  const selectedEvent = events.find(
+    (event) => String(event.id) === selectedEventId
+  );
+
+  // Tonight's roster picks up walk-up and last-minute purchases as they happen
+  const isToday =
+    !!selectedEvent &&
+    classifyEventDate(selectedEvent.startAt, selectedEvent.timezone) ===
+      "today";
+  const isLive = useLivePurchases(
+    hostUserId,
+    (purchase) => {
+      if (
+        String(purchase.eventId) !== selectedEventId ||
+        attendees.some((attendee) => attendee.paymentId === purchase.paymentId)
+      ) {
+        return;
+      }
+      setAttendees((current) => [...current, purchase]);
+      toast.success(
+        `New purchase: ${purchase.payerName || "Unknown"} (${Math.max(
+          purchase.guestCount,
+          1
+        )} guest${purchase.guestCount > 1 ? "s" : ""})`
+      );
+    },
+    isToday
+  );
+
+  const hostName = (id: number) =>
+    hosts.find((host) => host.id === id)?.name || String(id);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border rounded-lg p-6 shadow-sm space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Event</h2>
+          {isLoadingEvents && <Loader2 className="animate-spin" size={20} />}
+        </div>
+
+        <select
+          value={selectedEventId}
+          onChange={(e) => setSelectedEventId(e.target.value)}
+          disabled={isLoadingEvents || events.length === 0}
+          className="w-full p-3 border rounded-md"
+          aria-label="Event">
+          {events.length === 0 && (
+            <option value="">
+              {isLoadingEvents ? "Loading events..." : "No upcoming events"}
+            </option>
+          )}
+          {events.map((event) => (
+            <option key={event.id} value={event.id}>
+              {event.startDate} {event.startTime} - {event.name}
+              {hosts.length > 1 && !hostUserId
+                ? ` (${hostName(event.hostUserId)})`
+                : ""}
+            </option>
+          ))}
+        </select>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="flex-1 p-3 border rounded-md"
+            placeholder="Filter by name, email or seat..."
+          />
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as RosterSort)}
+            className="p-3 border rounded-md"
+            aria-label="Sort roster">
+            <option value="seat">Sort by seat</option>
+            <option value="lastName">Sort by last name</option>
+          </select>
+        </div>
+      </div>
+
+      {selectedEventId && (
+        <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold">
+              Attendees ({visibleAttendees.length}
+              {visibleAttendees.length !== attendees.length
+                ? ` of ${attendees.length}`
+                : ""}
+              )
+            </h2>
+            {isToday && <LiveBadge isLive={isLive} />}
+            <span className="text-sm text-gray-600 ml-auto">
+              Arrived {arrivalCounts.arrived} / {arrivalCounts.expected}
+            </span>
+            <ExportButtons
+              request={(format) =>
+                fetch(
+                  `/api/events/${selectedEventId}/export?format=${format}${
+                    hostUserId ? `&hostUserId=${hostUserId}` : ""
+                  }`
+                )
+              }
+            />
+            <a
+              href={`/dashboard/events/${selectedEventId}/door-list${
+                hostUserId ? `?hostUserId=${hostUserId}` : ""
+              }`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-1.5 border rounded-md hover:bg-gray-50 flex items-center gap-2 text-sm transition-colors">
+              <Printer size={16} />
+              Door list
+            </a>
+            <div className="inline-flex rounded-md border p-1">
+              <button
+                onClick={() => setView("list")}
+                className={`p-1.5 rounded ${
+                  view === "list" ? "bg-gray-200" : "hover:bg-gray-100"
+                }`}
+                aria-label="List view">
+                <List size={16} />
+              </button>
+              <button
+                onClick={() => setView("map")}
+                className={`p-1.5 rounded ${
+                  view === "map" ? "bg-gray-200" : "hover:bg-gray-100"
+                }`}
+                aria-label="Seat map view">
+                <MapIcon size={16} />
+              </button>
+            </div>
+          </div>
+
+          {isLoadingRoster ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="animate-spin text-gray-400" size={32} />
+            </div>
+          ) : view === "map" && selectedEvent ? (
+            <SeatMap
+              hostUserId={selectedEvent.hostUserId}
+              attendees={attendees}
+              highlightPaymentIds={highlightedPaymentIds}
+            />
+          ) : visibleAttendees.length === 0 ? (
+            <p className="text-center text-gray-600 py-12">
+              {attendees.length === 0
+                ? "No attendees for this event yet."
+                : "No attendees match your filter."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase tracking-wide text-gray-500">
+                    <th className="py-2 pr-4">Seat</th>
+                    <th className="py-2 pr-4">Attendee</th>
+                    <th className="py-2 pr-4">Email</th>
+                    <th className="py-2 pr-4 text-right">Payment ID</th>
+                    <th className="py-2 text-right">Arrived</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleAttendees.map((attendee) => (
+                    <tr
+                      key={attendee.paymentId}
+                      className="border-b last:border-0 hover:bg-gray-50">
+                      <td className="py-2 pr-4 font-semibold text-blue-600 whitespace-pre-line">
+                        {attendee.seatInfo || "-"}
+                      </td>
+                      <td className="py-2 pr-4 font-medium">
+                        {attendee.payerName || "-"}
+                        <AttendeeFlagBadges
+                          notes={attendee.notes}
+                          className="ml-2 align-middle"
+                        />
+                        {attendee.paymentState !== "valid" && (
+                          <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+                            {PAYMENT_STATE_LABELS[attendee.paymentState]}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-600 break-all">
+                        {attendee.payerEmail || "-"}
+                      </td>
+                      <td className="py-2 pr-4 text-right font-mono text-xs">
+                        {attendee.paymentId}
+                      </td>
+                      <td className="py-2 text-right">
+                        <div className="inline-flex">
+                          <CheckInButton
+                            result={attendee}
+                            compact
+                            onChange={(checkIns) =>
+                              updateCheckIns(attendee.paymentId, checkIns)
+                            }
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import toast from "react-hot-toast";
+import { Download, Loader2 } from "lucide-react";
+import type { ExportFormat } from "@/lib/seat-export";
+
+interface ExportButtonsProps {
+  // Issues the export request; the response body is downloaded as a file
+  request: (format: ExportFormat) => Promise<Response>;
+}
+
+// Pull the file name out of Content-Disposition, falling back to a generic one
+const getFileName = (response: Response, format: ExportFormat) => {
+  const disposition = response.headers.get("Content-Disposition") || "";
+  const match = disposition.match(/filename="([^"]+)"/);
+  return match ? match[1] : `export.${format}`;
+};
+
+export default function ExportButtons({ request }: ExportButtonsProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+
+    try {
+      const response = await request(format);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getFileName(response, format);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {(["csv", "xlsx"] as ExportFormat[]).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="px-3 py-1.5 border rounded-md hover:bg-gray-50 flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+          {exporting === format ? (
+            <Loader2 size={16} className="animate-spin" />
+          ) : (
+            <Download size={16} />
+          )}
+          {format.toUpperCase()}
+        </button>
+      ))}
+    </div>
+  );
+}
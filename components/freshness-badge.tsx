@@ -0,0 +1,67 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CloudOff, RefreshCw, Wifi } from "lucide-react";
+
+// Roster age thresholds for the badge colour
+const FRESH_MS = 30 * 60 * 1000;
+const STALE_MS = 3 * 60 * 60 * 1000;
+
+interface FreshnessBadgeProps {
+  fetchedAt: string | null;
+  isOnline: boolean;
+  pendingCount: number;
+}
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours} h ${minutes % 60} min ago`;
+};
+
+// How old the cached roster is, whether the kiosk is online, and what's waiting to sync
+export default function FreshnessBadge({
+  fetchedAt,
+  isOnline,
+  pendingCount,
+}: FreshnessBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const age = fetchedAt ? now - new Date(fetchedAt).getTime() : null;
+  const ageClass =
+    age === null || age > STALE_MS
+      ? "bg-red-100 text-red-800"
+      : age > FRESH_MS
+      ? "bg-yellow-100 text-yellow-800"
+      : "bg-green-100 text-green-800";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs font-medium">
+      <span
+        className={`px-2 py-1 rounded-full flex items-center gap-1 ${ageClass}`}
+        title={fetchedAt ? new Date(fetchedAt).toLocaleString() : undefined}>
+        <RefreshCw size={12} />
+        {age === null ? "No roster cached" : `Roster ${formatAge(age)}`}
+      </span>
+      <span
+        className={`px-2 py-1 rounded-full flex items-center gap-1 ${
+          isOnline ? "bg-gray-100 text-gray-700" : "bg-red-600 text-white"
+        }`}>
+        {isOnline ? <Wifi size={12} /> : <CloudOff size={12} />}
+        {isOnline ? "Online" : "Offline"}
+      </span>
+      {pendingCount > 0 && (
+        <span className="px-2 py-1 rounded-full bg-blue-100 text-blue-800">
+          {pendingCount} check-in{pendingCount !== 1 ? "s" : ""} waiting to sync
+        </span>
+      )}
+    </div>
+  );
+}
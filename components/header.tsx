@@ -7,10 +7,11 @@ import {
   SignedOut,
   UserButton,
 } from "@clerk/nextjs";
+import PayrixEnvironmentBadge from "@/components/payrix-environment-badge";
 
 export default function Header() {
   return (
-    <header className="flex justify-between items-center p-4 bg-gray-100">
+    <header className="flex justify-between items-center p-4 bg-gray-100 print:hidden">
       <h1 className="text-xl font-bold">Gotham Comedy Club</h1>
       <div>
         <SignedOut>
@@ -20,7 +21,10 @@ export default function Header() {
           </div>
         </SignedOut>
         <SignedIn>
-          <UserButton />
+          <div className="flex items-center gap-3">
+            <PayrixEnvironmentBadge />
+            <UserButton />
+          </div>
         </SignedIn>
       </div>
     </header>
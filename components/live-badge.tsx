@@ -0,0 +1,23 @@
+"use client";
+
+// Whether new purchases are being pushed to this view
+export default function LiveBadge({ isLive }: { isLive: boolean }) {
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1.5 ${
+        isLive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+      }`}
+      title={
+        isLive
+          ? "New purchases for tonight's shows appear here automatically"
+          : "Reconnecting to the live purchase feed"
+      }>
+      <span
+        className={`h-2 w-2 rounded-full ${
+          isLive ? "bg-green-500 animate-pulse" : "bg-gray-400"
+        }`}
+      />
+      {isLive ? "Live" : "Connecting"}
+    </span>
+  );
+}
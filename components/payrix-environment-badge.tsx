@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { PayrixEnvironment, PayrixEnvironmentInfo } from "@/lib/payrix";
+
+const ENVIRONMENT_STYLES: Record<PayrixEnvironment, string> = {
+  test: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  prod: "bg-green-100 text-green-800 border-green-200",
+  mock: "bg-purple-100 text-purple-800 border-purple-200",
+};
+
+// Shows which Payrix environment ZIP lookups go to, so test data isn't mistaken for live
+export default function PayrixEnvironmentBadge() {
+  const [info, setInfo] = useState<PayrixEnvironmentInfo | null>(null);
+
+  useEffect(() => {
+    const loadEnvironment = async () => {
+      try {
+        const response = await fetch("/api/payrix");
+        if (response.ok) {
+          setInfo(await response.json());
+        }
+      } catch {
+        // The badge is informational; leave it hidden if the lookup fails
+      }
+    };
+
+    loadEnvironment();
+  }, []);
+
+  if (!info) {
+    return null;
+  }
+
+  return (
+    <span
+      className={`text-xs font-medium px-2 py-1 rounded-full border ${
+        info.hasApiKey
+          ? ENVIRONMENT_STYLES[info.environment]
+          : "bg-red-100 text-red-800 border-red-200"
+      }`}
+      title={`ZIP lookups go to ${info.baseUrl}`}>
+      {info.label}
+      {!info.hasApiKey && " · no API key"}
+    </span>
+  );
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import { Printer } from "lucide-react";
+
+export default function PrintButton() {
+  return (
+    <button
+      onClick={() => window.print()}
+      className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center gap-2 text-sm font-medium transition-colors">
+      <Printer size={16} />
+      Print
+    </button>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import toast from "react-hot-toast";
+import { Camera, CameraOff, Loader2, ScanLine } from "lucide-react";
+import SeatResultCard from "@/components/seat-result-card";
+import { applyNoteChange, NoteChange } from "@/lib/attendee-flags";
+import type { SeatLookupResult } from "@/lib/db";
+import type { HostConfig } from "@/lib/hosts";
+
+// The Shape Detection API isn't in TypeScript's DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const getBarcodeDetector = () =>
+  typeof window === "undefined"
+    ? undefined
+    : (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor })
+        .BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 250;
+
+interface ScanLookupProps {
+  hostUserId: string;
+  hosts: HostConfig[];
+  onShowSeatMap: (result: SeatLookupResult) => void;
+  onShowHistory: (result: SeatLookupResult) => void;
+  // The latest staff note saved elsewhere, applied to the scanned result
+  lastNoteChange?: NoteChange | null;
+}
+
+export default function ScanLookup({
+  hostUserId,
+  hosts,
+  onShowSeatMap,
+  onShowHistory,
+  lastNoteChange,
+}: ScanLookupProps) {
+  const [code, setCode] = useState("");
+  const [result, setResult] = useState<SeatLookupResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCameraOn, setIsCameraOn] = useState(false);
+  const [cameraSupported, setCameraSupported] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const scanTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    if (!lastNoteChange) return;
+    setResult(
+      (current) =>
+        current &&
+        applyNoteChange(current, lastNoteChange.note, lastNoteChange.isDeleted)
+    );
+  }, [lastNoteChange]);
+
+  useEffect(() => {
+    setCameraSupported(
+      !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia
+    );
+  }, []);
+
+  const stopCamera = () => {
+    if (scanTimerRef.current) {
+      clearInterval(scanTimerRef.current);
+      scanTimerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsCameraOn(false);
+  };
+
+  // Release the camera when leaving scan mode
+  useEffect(() => stopCamera, []);
+
+  const lookup = async (value: string) => {
+    if (!value.trim()) {
+      toast.error("Scan or type a payment ID or transaction ID");
+      return;
+    }
+
+    setIsLoading(true);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/seat-lookup/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          code: value.trim(),
+          hostUserId: hostUserId || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Lookup failed");
+      }
+
+      setResult(data.result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Lookup failed");
+    } finally {
+      setIsLoading(false);
+      // Select the code so the next scan from a handheld scanner replaces it
+      inputRef.current?.select();
+    }
+  };
+
+  const startCamera = async () => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) return;
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        video: { facingMode: "environment" },
+      });
+      streamRef.current = stream;
+      setIsCameraOn(true);
+
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+      }
+
+      const detector = new BarcodeDetector({
+        formats: await BarcodeDetector.getSupportedFormats(),
+      });
+
+      scanTimerRef.current = setInterval(async () => {
+        if (!videoRef.current || videoRef.current.readyState < 2) return;
+
+        const barcodes = await detector.detect(videoRef.current);
+        if (barcodes.length > 0 && scanTimerRef.current) {
+          const value = barcodes[0].rawValue;
+          stopCamera();
+          setCode(value);
+          lookup(value);
+        }
+      }, SCAN_INTERVAL_MS);
+    } catch (error) {
+      stopCamera();
+      toast.error(
+        error instanceof Error
+          ? `Camera unavailable: ${error.message}`
+          : "Camera unavailable"
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border rounded-lg p-4 sm:p-6 shadow-sm">
+        <div className="flex flex-col sm:flex-row gap-3">
+          <input
+            ref={inputRef}
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && lookup(code)}
+            placeholder="Scan or type a payment ID or p1_txn_… / t1_txn_…"
+            autoFocus
+            className="flex-1 px-4 py-3 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+          />
+          <button
+            onClick={() => lookup(code)}
+            disabled={isLoading}
+            className="px-6 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 font-medium transition-colors">
+            {isLoading ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <ScanLine size={18} />
+            )}
+            Look up
+          </button>
+          {cameraSupported && (
+            <button
+              onClick={isCameraOn ? stopCamera : startCamera}
+              className="px-4 py-3 border rounded-md hover:bg-gray-50 flex items-center justify-center gap-2 font-medium transition-colors">
+              {isCameraOn ? <CameraOff size={18} /> : <Camera size={18} />}
+              {isCameraOn ? "Stop camera" : "Use camera"}
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mt-2">
+          {cameraSupported
+            ? "Point the camera at the guest's confirmation QR code or barcode, or use a handheld scanner"
+            : "This browser can't read barcodes from the camera; use a handheld scanner or type the code"}
+        </p>
+
+        {/* Always mounted so the stream can be attached before the first render */}
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className={`mt-4 w-full max-w-md mx-auto rounded-md bg-black aspect-video object-cover ${
+            isCameraOn ? "block" : "hidden"
+          }`}
+        />
+      </div>
+
+      {result && (
+        <div className="max-w-md">
+          <SeatResultCard
+            result={result}
+            venueName={
+              hosts.length > 1 && !hostUserId
+                ? hosts.find((h) => h.id === result.hostUserId)?.name ||
+                  String(result.hostUserId)
+                : null
+            }
+            onCheckInsChange={(checkIns) =>
+              setResult((current) =>
+                current ? { ...current, checkIns } : current
+              )
+            }
+            onShowSeatMap={() => onShowSeatMap(result)}
+            onOpen={() => onShowHistory(result)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
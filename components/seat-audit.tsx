@@ -0,0 +1,350 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { addDays, format } from "date-fns";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Loader2,
+  ShieldCheck,
+} from "lucide-react";
+import { DatePicker } from "@/components/ui/date-picker";
+import type { HostEvent } from "@/lib/db";
+import type { HostConfig } from "@/lib/hosts";
+import { PAYMENT_STATE_LABELS } from "@/lib/payment-status";
+import { hasSeatIssues, SeatAuditReport } from "@/lib/seat-audit";
+
+type AuditScope = "event" | "range";
+
+interface SeatAuditProps {
+  hostUserId: string;
+  hosts: HostConfig[];
+}
+
+const AuditReport = ({
+  report,
+  venueName,
+}: {
+  report: SeatAuditReport;
+  venueName: string | null;
+}) => (
+  <div className="bg-white border rounded-lg p-6 shadow-sm">
+    <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+      <h3 className="text-lg font-semibold">{report.event.name}</h3>
+      <span className="text-sm text-gray-600">
+        {report.event.startDate} {report.event.startTime}
+        {venueName && ` · ${venueName}`} · {report.seatCount} seats sold
+      </span>
+    </div>
+
+    <div className="space-y-4 text-sm">
+      {report.conflicts.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-red-700 mb-1">
+            Double-booked seats ({report.conflicts.length})
+          </h4>
+          <ul className="divide-y border rounded-md">
+            {report.conflicts.map((conflict, index) => (
+              <li key={`${conflict.seat.label}-${index}`} className="px-3 py-2">
+                <div className="font-medium">{conflict.seat.label}</div>
+                <div className="text-gray-600">
+                  {conflict.holders
+                    .map(
+                      (holder) =>
+                        `${holder.payerName || "Unknown"} (#${
+                          holder.paymentId
+                        })`
+                    )
+                    .join(", ")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.missingSeats.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-yellow-700 mb-1">
+            Parties short of seats ({report.missingSeats.length})
+          </h4>
+          <ul className="divide-y border rounded-md">
+            {report.missingSeats.map((party) => (
+              <li
+                key={party.paymentId}
+                className="px-3 py-2 flex justify-between gap-4">
+                <span>
+                  {party.payerName || "Unknown"}{" "}
+                  <span className="font-mono text-xs text-gray-500">
+                    #{party.paymentId}
+                  </span>
+                </span>
+                <span className="text-gray-600">
+                  {party.seatCount} of {party.guestCount} guests seated
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.unnumbered.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-1">
+            Seats without a seat number ({report.unnumbered.length})
+          </h4>
+          <ul className="divide-y border rounded-md">
+            {report.unnumbered.map((party) => (
+              <li key={party.paymentId} className="px-3 py-2">
+                <div>
+                  {party.payerName || "Unknown"}{" "}
+                  <span className="font-mono text-xs text-gray-500">
+                    #{party.paymentId}
+                  </span>
+                </div>
+                <div className="text-gray-600 whitespace-pre-line">
+                  {party.seats
+                    .map(({ seat, parsed }) =>
+                      parsed ? seat.label : `${seat.label} (not recognized)`
+                    )
+                    .join("\n")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.releasable.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-1">
+            Seats on refunded or failed payments ({report.releasable.length})
+          </h4>
+          <ul className="divide-y border rounded-md">
+            {report.releasable.map((party) => (
+              <li key={party.paymentId} className="px-3 py-2">
+                <div className="flex justify-between gap-4">
+                  <span>
+                    {party.payerName || "Unknown"}{" "}
+                    <span className="font-mono text-xs text-gray-500">
+                      #{party.paymentId}
+                    </span>
+                  </span>
+                  <span className="text-gray-600">
+                    {PAYMENT_STATE_LABELS[party.paymentState]}
+                  </span>
+                </div>
+                <div className="text-gray-600 whitespace-pre-line">
+                  {party.seats
+                    .map(({ seat, reassigned }) =>
+                      reassigned ? `${seat.label} (already resold)` : seat.label
+                    )
+                    .join("\n")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {!hasSeatIssues(report) && (
+        <p className="flex items-center gap-2 text-green-700">
+          <CheckCircle2 size={16} />
+          No seat problems found
+        </p>
+      )}
+    </div>
+  </div>
+);
+
+// Finds double-booked seats, parties with fewer seats than guests, seats without a
+// seat number, and seats on refunded or failed payments, for one show or every show
+// in a date range
+export default function SeatAudit({ hostUserId, hosts }: SeatAuditProps) {
+  const [scope, setScope] = useState<AuditScope>("event");
+  const [events, setEvents] = useState<HostEvent[]>([]);
+  const [selectedEventId, setSelectedEventId] = useState("");
+  const [dateFrom, setDateFrom] = useState<Date | undefined>(() => new Date());
+  const [dateTo, setDateTo] = useState<Date | undefined>(() =>
+    addDays(new Date(), 30)
+  );
+  const [reports, setReports] = useState<SeatAuditReport[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [showClean, setShowClean] = useState(false);
+
+  useEffect(() => {
+    const loadEvents = async () => {
+      setEvents([]);
+      setSelectedEventId("");
+      setReports(null);
+
+      try {
+        const params = hostUserId ? `?hostUserId=${hostUserId}` : "";
+        const response = await fetch(`/api/events${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load events");
+        }
+
+        const loadedEvents: HostEvent[] = data.events || [];
+        setEvents(loadedEvents);
+        if (loadedEvents.length > 0) {
+          setSelectedEventId(String(loadedEvents[0].id));
+        }
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : "Failed to load events"
+        );
+      }
+    };
+
+    loadEvents();
+  }, [hostUserId]);
+
+  const runAudit = async () => {
+    const params = new URLSearchParams();
+    if (hostUserId) params.set("hostUserId", hostUserId);
+
+    if (scope === "event") {
+      if (!selectedEventId) {
+        toast.error("Pick an event to audit");
+        return;
+      }
+      params.set("eventId", selectedEventId);
+    } else {
+      if (!dateFrom || !dateTo) {
+        toast.error("Pick both dates to audit a range");
+        return;
+      }
+      params.set("dateFrom", format(dateFrom, "yyyy-MM-dd"));
+      params.set("dateTo", format(dateTo, "yyyy-MM-dd"));
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch(`/api/seat-audit?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to run seat audit");
+      }
+
+      setReports(data.reports || []);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to run seat audit"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const withIssues = reports?.filter(hasSeatIssues) || [];
+  const visibleReports = showClean ? reports || [] : withIssues;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border rounded-lg p-6 shadow-sm space-y-4">
+        <div className="inline-flex rounded-md border p-1 text-sm">
+          {(["event", "range"] as AuditScope[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setScope(value)}
+              className={`px-3 py-1 rounded font-medium transition-colors ${
+                scope === value
+                  ? "bg-blue-600 text-white"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}>
+              {value === "event" ? "Single event" : "Date range"}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          {scope === "event" ? (
+            <select
+              value={selectedEventId}
+              onChange={(e) => setSelectedEventId(e.target.value)}
+              className="flex-1 p-2 border rounded-md"
+              aria-label="Event">
+              {events.length === 0 && (
+                <option value="">No upcoming events</option>
+              )}
+              {events.map((event) => (
+                <option key={event.id} value={event.id}>
+                  {event.startDate} {event.startTime} · {event.name}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div className="flex-1 grid grid-cols-2 gap-3">
+              <DatePicker
+                date={dateFrom}
+                onDateChange={setDateFrom}
+                placeholder="From"
+              />
+              <DatePicker
+                date={dateTo}
+                onDateChange={setDateTo}
+                placeholder="To"
+              />
+            </div>
+          )}
+          <button
+            onClick={runAudit}
+            disabled={isLoading}
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors">
+            {isLoading ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <ShieldCheck size={18} />
+            )}
+            Run audit
+          </button>
+        </div>
+      </div>
+
+      {reports && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="flex items-center gap-2 text-sm font-medium">
+              {withIssues.length > 0 ? (
+                <AlertTriangle size={16} className="text-red-600" />
+              ) : (
+                <CheckCircle2 size={16} className="text-green-600" />
+              )}
+              {withIssues.length} of {reports.length} event
+              {reports.length !== 1 ? "s" : ""} with seat problems
+            </p>
+            {reports.length > withIssues.length && (
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showClean}
+                  onChange={(e) => setShowClean(e.target.checked)}
+                />
+                Show events without problems
+              </label>
+            )}
+          </div>
+
+          {visibleReports.map((report) => (
+            <AuditReport
+              key={report.event.id}
+              report={report}
+              venueName={
+                hosts.length > 1 && !hostUserId
+                  ? hosts.find((h) => h.id === report.event.hostUserId)?.name ||
+                    String(report.event.hostUserId)
+                  : null
+              }
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
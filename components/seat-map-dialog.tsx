@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, X } from "lucide-react";
+import SeatMap from "@/components/seat-map";
+import type { SeatLookupResult } from "@/lib/db";
+
+interface SeatMapDialogProps {
+  result: SeatLookupResult;
+  onClose: () => void;
+}
+
+// Seat map for the event of one search result, with that party highlighted
+export default function SeatMapDialog({ result, onClose }: SeatMapDialogProps) {
+  const [attendees, setAttendees] = useState<SeatLookupResult[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadRoster = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(
+          `/api/events/${result.eventId}/roster?hostUserId=${result.hostUserId}`
+        );
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load seat map");
+        }
+
+        setAttendees(data.attendees || []);
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to load seat map"
+        );
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRoster();
+  }, [result.eventId, result.hostUserId]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4"
+      onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg w-full max-w-5xl max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">{result.eventName}</h2>
+            <p className="text-sm text-gray-600">
+              {result.eventStartDate} {result.eventStartTime} ·{" "}
+              {result.payerName || "Unknown attendee"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-100"
+            aria-label="Close seat map">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="animate-spin text-gray-400" size={32} />
+          </div>
+        ) : error ? (
+          <p className="text-center text-red-600 py-12">{error}</p>
+        ) : (
+          <SeatMap
+            hostUserId={result.hostUserId}
+            attendees={attendees}
+            highlightPaymentIds={[result.paymentId]}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
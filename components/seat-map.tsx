@@ -0,0 +1,128 @@
+"use client";
+
+import { useMemo } from "react";
+import type { SeatLookupResult } from "@/lib/db";
+import { buildSeatMap, getVenueLayout, SeatMapSeat } from "@/lib/seat-map";
+
+interface SeatMapProps {
+  hostUserId: number;
+  attendees: SeatLookupResult[];
+  highlightPaymentIds?: number[];
+}
+
+const NO_HIGHLIGHTS: number[] = [];
+
+const SEAT_STYLES: Record<SeatMapSeat["status"], string> = {
+  empty: "bg-white border-gray-300 text-gray-400",
+  sold: "bg-gray-200 border-gray-400 text-gray-700",
+  highlighted: "bg-blue-600 border-blue-700 text-white ring-2 ring-blue-300",
+};
+
+function SeatDot({ seat }: { seat: SeatMapSeat }) {
+  return (
+    <div
+      className={`w-8 h-8 rounded-full border flex items-center justify-center text-xs font-medium ${
+        SEAT_STYLES[seat.status]
+      }`}
+      title={
+        seat.status === "empty"
+          ? `Seat ${seat.seat ?? ""} - empty`
+          : `Seat ${seat.seat ?? ""} - ${seat.attendeeName || "Unknown"}`
+      }>
+      {seat.seat ?? "•"}
+    </div>
+  );
+}
+
+export default function SeatMap({
+  hostUserId,
+  attendees,
+  highlightPaymentIds = NO_HIGHLIGHTS,
+}: SeatMapProps) {
+  const layout = getVenueLayout(hostUserId);
+  const seatMap = useMemo(
+    () => buildSeatMap(attendees, layout, highlightPaymentIds),
+    [attendees, layout, highlightPaymentIds]
+  );
+
+  const groupLabel = seatMap.groupBy === "table" ? "Table" : "Row";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        {layout && <span className="font-semibold">{layout.name}</span>}
+        <span className="flex items-center gap-1">
+          <span
+            className={`w-3 h-3 rounded-full border ${SEAT_STYLES.highlighted}`}
+          />
+          This party
+        </span>
+        <span className="flex items-center gap-1">
+          <span className={`w-3 h-3 rounded-full border ${SEAT_STYLES.sold}`} />
+          Sold ({seatMap.soldCount})
+        </span>
+        {seatMap.hasLayout && (
+          <span className="flex items-center gap-1">
+            <span
+              className={`w-3 h-3 rounded-full border ${SEAT_STYLES.empty}`}
+            />
+            Empty ({seatMap.emptyCount})
+          </span>
+        )}
+      </div>
+
+      {!seatMap.hasLayout && (
+        <p className="text-xs text-gray-500">
+          No layout is configured for this venue, so only sold seats are shown.
+          Add one to config/venue-layouts.json to see empty seats.
+        </p>
+      )}
+
+      {seatMap.sections.map((section) => (
+        <div key={section.name ?? "default"}>
+          {section.name && (
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">
+              {section.name}
+            </h3>
+          )}
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
+            {section.groups.map((group) => {
+              const isHighlighted = group.seats.some(
+                (seat) => seat.status === "highlighted"
+              );
+              return (
+                <div
+                  key={group.id}
+                  className={`border rounded-lg p-2 ${
+                    isHighlighted ? "border-blue-500 bg-blue-50" : ""
+                  }`}>
+                  <div className="text-xs font-medium text-gray-500 mb-2">
+                    {groupLabel} {group.id}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {group.seats.map((seat) => (
+                      <SeatDot key={seat.key} seat={seat} />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      {seatMap.unplaced.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-700 mb-2">
+            Not in layout ({seatMap.unplaced.length})
+          </h3>
+          <div className="flex flex-wrap gap-1">
+            {seatMap.unplaced.map((seat) => (
+              <SeatDot key={seat.key} seat={seat} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
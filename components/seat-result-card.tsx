@@ -0,0 +1,219 @@
+"use client";
+
+import type { KeyboardEvent } from "react";
+import {
+  AlertTriangle,
+  Ban,
+  Map as MapIcon,
+  StickyNote,
+  UserRound,
+} from "lucide-react";
+import AttendeeFlagBadges from "@/components/attendee-flag-badges";
+import CheckInButton, { CheckInMethod } from "@/components/check-in-button";
+import { isDoNotAdmit } from "@/lib/attendee-flags";
+import type { CheckIn } from "@/lib/check-ins";
+import type { SeatLookupResult } from "@/lib/db";
+import {
+  formatAmount,
+  isAdmissible,
+  PAYMENT_STATE_LABELS,
+} from "@/lib/payment-status";
+
+interface SeatResultCardProps {
+  result: SeatLookupResult;
+  // Shown when results can span several venues
+  venueName?: string | null;
+  onCheckInsChange: (checkIns: CheckIn[]) => void;
+  // Leave out to hide the seat map button (e.g. offline in the kiosk)
+  onShowSeatMap?: () => void;
+  // Opens the attendee's history when the card is clicked; leave out to make it inert
+  onOpen?: () => void;
+  submitCheckIn?: (method: CheckInMethod) => Promise<CheckIn[]>;
+}
+
+export default function SeatResultCard({
+  result,
+  venueName,
+  onCheckInsChange,
+  onShowSeatMap,
+  onOpen,
+  submitCheckIn,
+}: SeatResultCardProps) {
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (
+      onOpen &&
+      e.target === e.currentTarget &&
+      (e.key === "Enter" || e.key === " ")
+    ) {
+      e.preventDefault();
+      onOpen();
+    }
+  };
+
+  return (
+    <div
+      className={`border rounded-lg p-4 hover:bg-gray-50 hover:shadow-md transition-all ${
+        onOpen ? "cursor-pointer" : ""
+      }`}
+      role={onOpen ? "button" : undefined}
+      tabIndex={onOpen ? 0 : undefined}
+      title={onOpen ? "View attendee history" : undefined}
+      onClick={onOpen}
+      onKeyDown={handleKeyDown}>
+      {/* Staff have asked for this guest to be turned away */}
+      {isDoNotAdmit(result.notes) && (
+        <div className="mb-3 flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-semibold bg-red-600 border-red-700 text-white">
+          <Ban size={16} />
+          Do not admit
+        </div>
+      )}
+
+      {/* Refunded or failed tickets must stand out before anything else */}
+      {result.paymentState !== "valid" && (
+        <div
+          className={`mb-3 flex items-center gap-2 rounded-md border px-3 py-2 text-sm font-semibold ${
+            isAdmissible(result.paymentState)
+              ? "bg-yellow-50 border-yellow-200 text-yellow-800"
+              : "bg-red-50 border-red-200 text-red-800"
+          }`}>
+          <AlertTriangle size={16} />
+          {PAYMENT_STATE_LABELS[result.paymentState]}
+          {result.refundAmount > 0 &&
+            ` · ${formatAmount(result.refundAmount)} of ${formatAmount(
+              result.amount
+            )} refunded`}
+        </div>
+      )}
+
+      {/* Seat Info - Most Prominent */}
+      <div className="mb-3 pb-3 border-b">
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">
+            Seat
+          </div>
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+              result.matchScore >= 1
+                ? "bg-green-100 text-green-800"
+                : result.matchScore >= 0.75
+                ? "bg-blue-100 text-blue-800"
+                : "bg-yellow-100 text-yellow-800"
+            }`}
+            title="How closely this attendee matches your search">
+            {result.matchScore >= 1
+              ? "Exact match"
+              : `${Math.round(result.matchScore * 100)}% match`}
+            {result.matchedBy === "guest" ? " · guest" : " · buyer"}
+          </span>
+        </div>
+        <div className="text-xl font-bold text-blue-600 whitespace-pre-line">
+          {result.seatInfo || "-"}
+        </div>
+      </div>
+
+      {/* Guest-level match: who in the party was found, and their own seat */}
+      {result.matchedGuest && (
+        <div className="mb-3 flex items-start gap-2 rounded-md bg-blue-50 border border-blue-200 px-3 py-2 text-sm text-blue-900">
+          <UserRound size={16} className="mt-0.5 shrink-0" />
+          <div>
+            <div className="font-semibold">
+              {result.matchedGuest.name} is a guest in{" "}
+              {result.payerName || "this"}&apos;s party
+            </div>
+            <div>
+              {result.matchedGuest.seat
+                ? result.matchedGuest.seat.label
+                : "No seat assigned"}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Staff notes and flags (VIP, comp, birthday, ...) */}
+      {result.notes.length > 0 && (
+        <div className="mb-3 space-y-1 text-sm">
+          <AttendeeFlagBadges notes={result.notes} />
+          {result.notes
+            .filter((note) => note.note)
+            .map((note) => (
+              <p key={note.id} className="flex items-start gap-2 text-gray-700">
+                <StickyNote size={14} className="mt-0.5 shrink-0" />
+                {note.note}
+              </p>
+            ))}
+        </div>
+      )}
+
+      {/* Other Details */}
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Buyer:</span>
+          <span className="font-semibold text-right">
+            {result.payerName || "-"}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Email:</span>
+          <span className="text-right break-all">
+            {result.payerEmail || "-"}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Event:</span>
+          <span className="text-right">{result.eventName}</span>
+        </div>
+        {venueName && (
+          <div className="flex justify-between gap-2">
+            <span className="font-medium text-gray-600">Venue:</span>
+            <span className="text-right">{venueName}</span>
+          </div>
+        )}
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Date:</span>
+          <span className="text-right">
+            {result.eventStartDate} {result.eventStartTime}
+          </span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Paid:</span>
+          <span className="text-right">{formatAmount(result.netAmount)}</span>
+        </div>
+        <div className="flex justify-between gap-2">
+          <span className="font-medium text-gray-600">Payment ID:</span>
+          <span className="font-mono text-xs text-right">
+            {result.paymentId}
+          </span>
+        </div>
+        {result.transactionId && (
+          <div className="flex justify-between gap-2">
+            <span className="font-medium text-gray-600">Transaction:</span>
+            <span className="font-mono text-xs text-right break-all">
+              {result.transactionId}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Card clicks open the history; the buttons below keep their own actions */}
+      <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+        <CheckInButton
+          result={result}
+          onChange={onCheckInsChange}
+          submit={submitCheckIn}
+        />
+      </div>
+
+      {onShowSeatMap && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onShowSeatMap();
+          }}
+          className="mt-3 w-full flex items-center justify-center gap-2 py-2 text-sm text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors">
+          <MapIcon size={16} />
+          Show on seat map
+        </button>
+      )}
+    </div>
+  );
+}
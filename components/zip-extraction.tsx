@@ -0,0 +1,394 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import toast from "react-hot-toast";
+import { addDays, format } from "date-fns";
+import { Download, Loader2, MapPin, XCircle } from "lucide-react";
+import { DatePicker } from "@/components/ui/date-picker";
+import type { HostConfig } from "@/lib/hosts";
+import type { ZipJob, ZipJobStatus } from "@/lib/zip-jobs";
+
+interface ZipExtractionProps {
+  hostUserId: string;
+  hosts: HostConfig[];
+}
+
+// The job being watched, so a reloaded page picks up polling where it left off
+const ACTIVE_JOB_KEY = "zip-extraction:activeJobId";
+const POLL_INTERVAL_MS = 2000;
+const RECENT_JOBS = 10;
+
+const FINISHED_STATUSES: ZipJobStatus[] = ["completed", "failed", "cancelled"];
+
+const STATUS_LABELS: Record<ZipJobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const isFinished = (job: ZipJob) => FINISHED_STATUSES.includes(job.status);
+
+const describeProgress = (job: ZipJob) => {
+  if (job.status === "queued") return "Waiting for earlier jobs";
+  if (job.status === "running" && job.progress.total === 0) {
+    return "Loading payments...";
+  }
+  const { total, done, failed, remaining } = job.progress;
+  return `${done} done · ${failed} failed · ${remaining} remaining of ${total}`;
+};
+
+const DownloadLinks = ({ job }: { job: ZipJob }) => (
+  <div className="flex gap-2">
+    {(["csv", "json"] as const).map((fileFormat) => (
+      <a
+        key={fileFormat}
+        href={`/api/zip-jobs/${job.id}/results?format=${fileFormat}`}
+        className="px-3 py-1 border rounded-md hover:bg-gray-50 flex items-center gap-1 text-sm transition-colors">
+        <Download size={14} />
+        {fileFormat.toUpperCase()}
+      </a>
+    ))}
+  </div>
+);
+
+// Billing ZIP extraction for a venue's payments, run as a background job on the server.
+// Progress is polled until the job finishes; the results are then downloaded.
+export default function ZipExtraction({
+  hostUserId,
+  hosts,
+}: ZipExtractionProps) {
+  const [jobHostId, setJobHostId] = useState(hostUserId);
+  const [dateFrom, setDateFrom] = useState<Date | undefined>(() =>
+    addDays(new Date(), -30)
+  );
+  const [dateTo, setDateTo] = useState<Date | undefined>(() => new Date());
+  const [transactionIds, setTransactionIds] = useState("");
+  const [activeJob, setActiveJob] = useState<ZipJob | null>(null);
+  const [recentJobs, setRecentJobs] = useState<ZipJob[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setJobHostId(hostUserId || (hosts[0] ? String(hosts[0].id) : ""));
+  }, [hostUserId, hosts]);
+
+  const loadRecentJobs = async (scope: string) => {
+    try {
+      const params = scope ? `?hostUserId=${scope}` : "";
+      const response = await fetch(`/api/zip-jobs${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load ZIP extractions");
+      }
+
+      setRecentJobs((data.jobs || []).slice(0, RECENT_JOBS));
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to load ZIP extractions"
+      );
+    }
+  };
+
+  useEffect(() => {
+    loadRecentJobs(hostUserId);
+  }, [hostUserId]);
+
+  // Resume the job this browser was watching before a reload
+  useEffect(() => {
+    const jobId = window.localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!jobId) return;
+
+    const resume = async () => {
+      try {
+        const response = await fetch(`/api/zip-jobs/${jobId}`);
+        if (response.status === 404) {
+          window.localStorage.removeItem(ACTIVE_JOB_KEY);
+          return;
+        }
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to load the ZIP extraction");
+        }
+
+        setActiveJob(data.job);
+      } catch (error) {
+        toast.error(
+          error instanceof Error
+            ? error.message
+            : "Failed to load the ZIP extraction"
+        );
+      }
+    };
+
+    resume();
+  }, []);
+
+  const activeJobId = activeJob?.id;
+  const isActiveJobRunning = activeJob ? !isFinished(activeJob) : false;
+
+  // Poll the watched job until it finishes. Failed polls are retried on the next
+  // tick, so a brief outage doesn't lose the job.
+  useEffect(() => {
+    if (!activeJobId || !isActiveJobRunning) return;
+
+    const timer = window.setInterval(async () => {
+      try {
+        const response = await fetch(`/api/zip-jobs/${activeJobId}`);
+        if (!response.ok) return;
+
+        const { job } = (await response.json()) as { job: ZipJob };
+        setActiveJob(job);
+
+        if (isFinished(job)) {
+          window.localStorage.removeItem(ACTIVE_JOB_KEY);
+          loadRecentJobs(hostUserId);
+
+          if (job.status === "completed") {
+            toast.success(
+              `ZIP extraction finished: ${job.progress.done} found, ${job.progress.failed} failed`
+            );
+          } else if (job.status === "failed") {
+            toast.error(
+              `ZIP extraction failed: ${job.error || "unknown error"}`
+            );
+          }
+        }
+      } catch (error) {
+        console.error("ZIP extraction poll error:", error);
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [activeJobId, isActiveJobRunning, hostUserId]);
+
+  const watchJob = (job: ZipJob) => {
+    setActiveJob(job);
+    if (isFinished(job)) {
+      window.localStorage.removeItem(ACTIVE_JOB_KEY);
+    } else {
+      window.localStorage.setItem(ACTIVE_JOB_KEY, job.id);
+    }
+  };
+
+  const submitJob = async () => {
+    if (!jobHostId) {
+      toast.error("Pick a venue to extract ZIP codes for");
+      return;
+    }
+
+    const ids = transactionIds
+      .split(/[\s,]+/)
+      .map((id) => id.trim())
+      .filter(Boolean);
+    if (ids.length === 0 && (!dateFrom || !dateTo)) {
+      toast.error("Pick both dates, or paste transaction IDs");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch("/api/zip-jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          hostUserId: jobHostId,
+          transactionIds: ids.length > 0 ? ids : undefined,
+          dateFrom:
+            ids.length === 0 && dateFrom
+              ? format(dateFrom, "yyyy-MM-dd")
+              : undefined,
+          dateTo:
+            ids.length === 0 && dateTo
+              ? format(dateTo, "yyyy-MM-dd")
+              : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to queue the ZIP extraction");
+      }
+
+      watchJob(data.job);
+      setRecentJobs((current) => [data.job, ...current].slice(0, RECENT_JOBS));
+      toast.success("ZIP extraction queued");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to queue the ZIP extraction"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cancelJob = async (job: ZipJob) => {
+    try {
+      const response = await fetch(`/api/zip-jobs/${job.id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel the ZIP extraction");
+      }
+
+      if (activeJob?.id === job.id) {
+        watchJob(data.job);
+      }
+      setRecentJobs((current) =>
+        current.map((recent) => (recent.id === job.id ? data.job : recent))
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to cancel the ZIP extraction"
+      );
+    }
+  };
+
+  const progressShare =
+    activeJob && activeJob.progress.total > 0
+      ? (activeJob.progress.total - activeJob.progress.remaining) /
+        activeJob.progress.total
+      : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border rounded-lg p-6 shadow-sm space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          {!hostUserId && hosts.length > 1 && (
+            <select
+              value={jobHostId}
+              onChange={(e) => setJobHostId(e.target.value)}
+              className="p-2 border rounded-md"
+              aria-label="Venue for the extraction">
+              {hosts.map((host) => (
+                <option key={host.id} value={host.id}>
+                  {host.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex-1 grid grid-cols-2 gap-3">
+            <DatePicker
+              date={dateFrom}
+              onDateChange={setDateFrom}
+              placeholder="From"
+              disabled={transactionIds.trim() !== ""}
+            />
+            <DatePicker
+              date={dateTo}
+              onDateChange={setDateTo}
+              placeholder="To"
+              disabled={transactionIds.trim() !== ""}
+            />
+          </div>
+          <button
+            onClick={submitJob}
+            disabled={isSubmitting}
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transition-colors">
+            {isSubmitting ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : (
+              <MapPin size={18} />
+            )}
+            Extract ZIPs
+          </button>
+        </div>
+        <textarea
+          value={transactionIds}
+          onChange={(e) => setTransactionIds(e.target.value)}
+          placeholder="Or paste transaction IDs (t1_txn_...), one per line, instead of a date range"
+          rows={3}
+          className="w-full p-2 border rounded-md font-mono text-sm"
+        />
+      </div>
+
+      {activeJob && (
+        <div className="bg-white border rounded-lg p-6 shadow-sm space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-semibold flex items-center gap-2">
+              {!isFinished(activeJob) && (
+                <Loader2 size={18} className="animate-spin text-blue-600" />
+              )}
+              {STATUS_LABELS[activeJob.status]}
+            </h3>
+            {isFinished(activeJob) ? (
+              activeJob.status === "completed" && (
+                <DownloadLinks job={activeJob} />
+              )
+            ) : (
+              <button
+                onClick={() => cancelJob(activeJob)}
+                className="px-3 py-1 border border-red-200 text-red-600 rounded-md hover:bg-red-50 flex items-center gap-1 text-sm transition-colors">
+                <XCircle size={14} />
+                Cancel
+              </button>
+            )}
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 transition-all"
+              style={{ width: `${Math.round(progressShare * 100)}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-600">{describeProgress(activeJob)}</p>
+          {activeJob.error && (
+            <p className="text-sm text-red-600">{activeJob.error}</p>
+          )}
+        </div>
+      )}
+
+      {recentJobs.length > 0 && (
+        <div className="bg-white border rounded-lg p-6 shadow-sm">
+          <h3 className="text-lg font-semibold mb-3">Recent extractions</h3>
+          <ul className="divide-y border rounded-md text-sm">
+            {recentJobs.map((job) => (
+              <li
+                key={job.id}
+                className="px-3 py-2 flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <div className="font-medium">
+                    {STATUS_LABELS[job.status]}
+                    <span className="ml-2 font-normal text-gray-500">
+                      {new Date(job.createdAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="text-gray-600">
+                    {job.params.transactionIds
+                      ? `${job.params.transactionIds.length} transaction IDs`
+                      : `${job.params.dateFrom || "…"} to ${
+                          job.params.dateTo || "…"
+                        }`}{" "}
+                    · {describeProgress(job)}
+                  </div>
+                </div>
+                {job.status === "completed" ? (
+                  <DownloadLinks job={job} />
+                ) : (
+                  !isFinished(job) &&
+                  activeJob?.id !== job.id && (
+                    <button
+                      onClick={() => watchJob(job)}
+                      className="px-3 py-1 border rounded-md hover:bg-gray-50 text-sm transition-colors">
+                      Show progress
+                    </button>
+                  )
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
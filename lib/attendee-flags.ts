@@ -0,0 +1,103 @@
+// Staff notes and flags on attendees (VIP, comp, birthday, do not admit), kept in the
+// local store because the warehouse is read-only.
+// Shared by the API (to store and check changes) and the dashboard (to show badges).
+
+export type AttendeeFlag = 'vip' | 'comp' | 'birthday' | 'do_not_admit';
+
+export const ATTENDEE_FLAGS: AttendeeFlag[] = ['vip', 'comp', 'birthday', 'do_not_admit'];
+
+export const ATTENDEE_FLAG_LABELS: Record<AttendeeFlag, string> = {
+  vip: 'VIP',
+  comp: 'Comp',
+  birthday: 'Birthday',
+  do_not_admit: 'Do not admit',
+};
+
+// Flags only managers may set or clear
+export const RESTRICTED_FLAGS: AttendeeFlag[] = ['do_not_admit'];
+
+export const MAX_NOTE_LENGTH = 500;
+
+// Who a note is about: the buyer's account when the payment has one, so the note follows
+// every purchase they make, otherwise the event_attendees row of a guest checkout
+export interface AttendeeNoteSubject {
+  type: 'user' | 'attendee';
+  id: number;
+}
+
+export interface AttendeeNoteChange {
+  action: 'created' | 'updated' | 'deleted';
+  // The flags and text after the change (before it, for a delete)
+  flags: AttendeeFlag[];
+  note: string;
+  changedAt: string;
+  changedBy: string;
+}
+
+export interface AttendeeNote {
+  id: string;
+  hostUserId: number;
+  subject: AttendeeNoteSubject;
+  flags: AttendeeFlag[];
+  note: string;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy: string;
+  // Deleted notes are kept so their history survives; adding a note again revives them
+  deletedAt: string | null;
+  // Oldest first
+  history: AttendeeNoteChange[];
+}
+
+// What lookups and rosters carry: the live note without its change history
+export type AttendeeNoteView = Omit<AttendeeNote, 'history' | 'deletedAt'>;
+
+// What the signed-in user may do with notes for a host
+export interface NotePermissions {
+  canEdit: boolean;
+  canEditRestricted: boolean;
+  canDelete: boolean;
+}
+
+interface NoteIdentity {
+  hostUserId: number;
+  attendeeId: number;
+  buyerUserId: number | null;
+}
+
+export const getNoteSubject = (payment: NoteIdentity): AttendeeNoteSubject =>
+  payment.buyerUserId !== null
+    ? { type: 'user', id: payment.buyerUserId }
+    : { type: 'attendee', id: payment.attendeeId };
+
+// Whether a note is about the buyer or attendee behind a payment
+export const noteAppliesTo = (
+  note: Pick<AttendeeNoteView, 'hostUserId' | 'subject'>,
+  payment: NoteIdentity
+): boolean =>
+  note.hostUserId === payment.hostUserId &&
+  (note.subject.type === 'user' ? note.subject.id === payment.buyerUserId : note.subject.id === payment.attendeeId);
+
+export const isDoNotAdmit = (notes: AttendeeNoteView[]): boolean =>
+  notes.some((note) => note.flags.includes('do_not_admit'));
+
+// A note that was just saved or deleted, for views to apply to the results they hold
+export interface NoteChange {
+  note: AttendeeNoteView;
+  isDeleted: boolean;
+}
+
+// A payment with `note` saved (or removed) when the note is about its buyer or attendee
+export const applyNoteChange = <T extends NoteIdentity & { notes: AttendeeNoteView[] }>(
+  payment: T,
+  note: AttendeeNoteView,
+  isDeleted: boolean
+): T => {
+  if (!noteAppliesTo(note, payment)) {
+    return payment;
+  }
+
+  const others = payment.notes.filter((existing) => existing.id !== note.id);
+  return { ...payment, notes: isDeleted ? others : [...others, note] };
+};
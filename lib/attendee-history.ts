@@ -0,0 +1,57 @@
+import type { SeatLookupResult } from '@/lib/db';
+import { isAdmissible } from '@/lib/payment-status';
+import { classifyEventDate } from '@/lib/timezone';
+
+// One attendee's purchases with a host, for the history drawer.
+// Shared by the API (to build the summary) and the dashboard (to render the timeline).
+
+export interface AttendeeHistorySummary {
+  // Distinct events with a payment that still admits the party
+  eventCount: number;
+  paymentCount: number;
+  // Net of refunds; failed payments never charged anything
+  totalSpend: number;
+  totalRefunded: number;
+  // Payments with any refund, partial or full
+  refundCount: number;
+  // Start of the earliest event already held with a valid ticket
+  firstVisitAt: string | null;
+  // Valid payments for tonight's and later shows
+  upcomingCount: number;
+}
+
+export interface AttendeeHistory {
+  // The payment the history was opened from
+  paymentId: number;
+  hostUserId: number;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  // Every payment for this host by the same attendee or buyer account, latest event first
+  payments: SeatLookupResult[];
+  summary: AttendeeHistorySummary;
+}
+
+// A 'refunded' status may come without refund_amount filled in; treat it as the full amount
+const refundedAmount = (payment: SeatLookupResult): number =>
+  payment.paymentState === 'refunded' ? Math.max(payment.refundAmount, payment.amount) : payment.refundAmount;
+
+export const summarizeAttendeeHistory = (payments: SeatLookupResult[]): AttendeeHistorySummary => {
+  const admitted = payments.filter((payment) => isAdmissible(payment.paymentState));
+  const charged = payments.filter((payment) => payment.paymentState !== 'failed');
+
+  const heldStarts = admitted
+    .filter((payment) => classifyEventDate(payment.eventStartAt, payment.timezone) !== 'upcoming')
+    .map((payment) => payment.eventStartAt)
+    .sort();
+
+  return {
+    eventCount: new Set(admitted.map((payment) => payment.eventId)).size,
+    paymentCount: payments.length,
+    totalSpend: charged.reduce((total, payment) => total + (payment.paymentState === 'refunded' ? 0 : payment.netAmount), 0),
+    totalRefunded: charged.reduce((total, payment) => total + refundedAmount(payment), 0),
+    refundCount: charged.filter((payment) => refundedAmount(payment) > 0).length,
+    firstVisitAt: heldStarts[0] || null,
+    upcomingCount: admitted.filter((payment) => classifyEventDate(payment.eventStartAt, payment.timezone) !== 'past').length,
+  };
+};
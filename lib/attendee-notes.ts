@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+import {
+  ATTENDEE_FLAGS,
+  AttendeeFlag,
+  AttendeeNote,
+  AttendeeNoteSubject,
+  AttendeeNoteView,
+  MAX_NOTE_LENGTH,
+  noteAppliesTo,
+  NotePermissions,
+  RESTRICTED_FLAGS,
+} from '@/lib/attendee-flags';
+import { hasStaffRole, StaffRole } from '@/lib/hosts';
+import { readStore, updateStore } from '@/lib/local-store';
+
+interface AttendeeNoteStore {
+  notes: Record<string, AttendeeNote>;
+}
+
+const STORE_NAME = 'attendee-notes';
+const emptyStore = (): AttendeeNoteStore => ({ notes: {} });
+
+const isSameSubject = (note: AttendeeNote, hostUserId: number, subject: AttendeeNoteSubject) =>
+  note.hostUserId === hostUserId && note.subject.type === subject.type && note.subject.id === subject.id;
+
+export const toNoteView = (note: AttendeeNote): AttendeeNoteView => ({
+  id: note.id,
+  hostUserId: note.hostUserId,
+  subject: note.subject,
+  flags: note.flags,
+  note: note.note,
+  createdAt: note.createdAt,
+  createdBy: note.createdBy,
+  updatedAt: note.updatedAt,
+  updatedBy: note.updatedBy,
+});
+
+export const getNotePermissions = (role: StaffRole | null | undefined): NotePermissions => ({
+  canEdit: hasStaffRole(role, 'staff'),
+  canEditRestricted: hasStaffRole(role, 'manager'),
+  canDelete: hasStaffRole(role, 'manager'),
+});
+
+export type ParsedNoteInput =
+  | { ok: true; flags: AttendeeFlag[]; note: string }
+  | { ok: false; error: string };
+
+// Parse flags and note text from a request body. A note needs at least one flag or some text.
+export const parseNoteInput = (input: { flags?: unknown; note?: unknown }): ParsedNoteInput => {
+  if (input.flags !== undefined && !Array.isArray(input.flags)) {
+    return { ok: false, error: 'Flags must be provided as an array' };
+  }
+
+  const flags = (input.flags as unknown[] | undefined) || [];
+  const invalid = flags.filter((flag) => !ATTENDEE_FLAGS.includes(flag as AttendeeFlag));
+  if (invalid.length > 0) {
+    return { ok: false, error: `Unknown flag: ${invalid.join(', ')}. Use ${ATTENDEE_FLAGS.join(', ')}` };
+  }
+
+  if (input.note !== undefined && input.note !== null && typeof input.note !== 'string') {
+    return { ok: false, error: 'Note must be text' };
+  }
+
+  const note = ((input.note as string | null | undefined) || '').trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    return { ok: false, error: `Note must be at most ${MAX_NOTE_LENGTH} characters` };
+  }
+
+  if (flags.length === 0 && !note) {
+    return { ok: false, error: 'Add a flag or some note text' };
+  }
+
+  // Keep flags in display order without duplicates
+  return { ok: true, flags: ATTENDEE_FLAGS.filter((flag) => flags.includes(flag)), note };
+};
+
+// Why the change from `before` to `after` flags isn't allowed, or null when it is
+export const getNoteChangeError = (
+  permissions: NotePermissions,
+  before: AttendeeFlag[],
+  after: AttendeeFlag[]
+): string | null => {
+  if (!permissions.canEdit) {
+    return 'You do not have permission to edit staff notes';
+  }
+
+  const restrictedChanged = RESTRICTED_FLAGS.some((flag) => before.includes(flag) !== after.includes(flag));
+  if (restrictedChanged && !permissions.canEditRestricted) {
+    return 'Only managers can set or clear "do not admit"';
+  }
+
+  return null;
+};
+
+export const getAttendeeNote = async (noteId: string): Promise<AttendeeNote | null> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  const note = store.notes[noteId];
+  return note && !note.deletedAt ? note : null;
+};
+
+export const getNoteForSubject = async (
+  hostUserId: number,
+  subject: AttendeeNoteSubject
+): Promise<AttendeeNote | null> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  return Object.values(store.notes).find((note) => !note.deletedAt && isSameSubject(note, hostUserId, subject)) || null;
+};
+
+// Add a note about a subject. A previously deleted note is revived so its history carries on.
+// Returns null when the subject already has a note, which should be updated instead.
+export const createAttendeeNote = async (params: {
+  hostUserId: number;
+  subject: AttendeeNoteSubject;
+  flags: AttendeeFlag[];
+  note: string;
+  changedBy: string;
+}): Promise<AttendeeNote | null> => {
+  const changedAt = new Date().toISOString();
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const existing = Object.values(store.notes).find((note) => isSameSubject(note, params.hostUserId, params.subject));
+    if (existing && !existing.deletedAt) {
+      return null;
+    }
+
+    const note: AttendeeNote = {
+      id: existing?.id || randomUUID(),
+      hostUserId: params.hostUserId,
+      subject: params.subject,
+      flags: params.flags,
+      note: params.note,
+      createdAt: changedAt,
+      createdBy: params.changedBy,
+      updatedAt: changedAt,
+      updatedBy: params.changedBy,
+      deletedAt: null,
+      history: [
+        ...(existing?.history || []),
+        { action: 'created', flags: params.flags, note: params.note, changedAt, changedBy: params.changedBy },
+      ],
+    };
+
+    store.notes[note.id] = note;
+    return note;
+  });
+};
+
+export type AttendeeNoteUpdate =
+  | { ok: true; note: AttendeeNote }
+  | { ok: false; status: 403 | 404; error: string };
+
+// Change a note's flags and text. The permission check runs against the stored note inside
+// the write, so a "do not admit" set by a manager after the caller read the note isn't lost.
+export const updateAttendeeNote = async (params: {
+  noteId: string;
+  flags: AttendeeFlag[];
+  note: string;
+  permissions: NotePermissions;
+  changedBy: string;
+}): Promise<AttendeeNoteUpdate> => {
+  const changedAt = new Date().toISOString();
+
+  return updateStore(STORE_NAME, emptyStore(), (store): AttendeeNoteUpdate => {
+    const note = store.notes[params.noteId];
+    if (!note || note.deletedAt) {
+      return { ok: false, status: 404, error: 'Note not found' };
+    }
+
+    const forbidden = getNoteChangeError(params.permissions, note.flags, params.flags);
+    if (forbidden) {
+      return { ok: false, status: 403, error: forbidden };
+    }
+
+    note.flags = params.flags;
+    note.note = params.note;
+    note.updatedAt = changedAt;
+    note.updatedBy = params.changedBy;
+    note.history.push({ action: 'updated', flags: params.flags, note: params.note, changedAt, changedBy: params.changedBy });
+    return { ok: true, note };
+  });
+};
+
+// Returns the deleted note, or null when there was nothing to delete
+export const deleteAttendeeNote = async (params: {
+  noteId: string;
+  changedBy: string;
+}): Promise<AttendeeNote | null> => {
+  const changedAt = new Date().toISOString();
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const note = store.notes[params.noteId];
+    if (!note || note.deletedAt) {
+      return null;
+    }
+
+    note.deletedAt = changedAt;
+    note.updatedAt = changedAt;
+    note.updatedBy = params.changedBy;
+    note.history.push({ action: 'deleted', flags: note.flags, note: note.note, changedAt, changedBy: params.changedBy });
+    return note;
+  });
+};
+
+// Attach live notes to seat lookup or roster results, matched on the buyer account or attendee
+export const withAttendeeNotes = async <
+  T extends { hostUserId: number; attendeeId: number; buyerUserId: number | null; notes: AttendeeNoteView[] }
+>(
+  results: T[]
+): Promise<T[]> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  const hostUserIds = new Set(results.map((result) => result.hostUserId));
+  const notes = Object.values(store.notes).filter((note) => !note.deletedAt && hostUserIds.has(note.hostUserId));
+
+  return results.map((result) => ({
+    ...result,
+    notes: notes.filter((note) => noteAppliesTo(note, result)).map(toNoteView),
+  }));
+};
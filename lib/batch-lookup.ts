@@ -0,0 +1,144 @@
+import Papa from 'papaparse';
+import { MIN_MATCH_SCORE } from '@/lib/name-match';
+import { parsePaymentIdentifier } from '@/lib/search-query';
+import { preferPartyMatch, scoreSeatLookupMatch, SeatLookupMatchedBy } from '@/lib/seat-lookup-match';
+
+// Batch seat lookup for group reservations: parse a pasted list or a CSV in the
+// example.csv shape (first, last, email, transaction ID; no header), then sort each
+// row's scored candidates into matched / ambiguous / not found.
+// Shared by the API (to resolve rows) and the dashboard (to preview what was parsed).
+
+export const MAX_BATCH_ROWS = 200;
+
+export interface BatchLookupRow {
+  // 1-based line in the pasted text or file, for pointing back at the input
+  line: number;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  transactionId: string | null;
+}
+
+export type BatchLookupStatus = 'matched' | 'ambiguous' | 'not_found';
+
+// One payment a row could refer to, scored the same way as the seat lookup
+export interface BatchCandidate {
+  paymentId: number;
+  matchScore: number;
+  matchedBy: SeatLookupMatchedBy;
+  guestId: number | null;
+}
+
+// A best match at or above this, clear of the runner-up by the margin, is taken as the
+// row's payment; anything weaker is left for staff to pick from
+const CONFIDENT_SCORE = 0.85;
+const CONFIDENT_MARGIN = 0.1;
+
+// An email on the row that equals the buyer's counts for this much on its own, so a
+// family sharing one email is ambiguous unless the name settles it
+const EMAIL_MATCH_SCORE = 0.75;
+
+const HEADER_PATTERN = /^first(\s*_?name)?$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+const clean = (value: string | undefined): string | null => (value || '').trim() || null;
+
+// A single-value line from a pasted list: a transaction ID, an email, or a name
+const parseListLine = (value: string, line: number): BatchLookupRow => {
+  const identifier = parsePaymentIdentifier(value);
+  if (identifier?.type === 'transactionId') {
+    return { line, firstName: null, lastName: null, email: null, transactionId: identifier.transactionId };
+  }
+  if (EMAIL_PATTERN.test(value)) {
+    return { line, firstName: null, lastName: null, email: value, transactionId: null };
+  }
+
+  const tokens = value.split(/\s+/);
+  return {
+    line,
+    firstName: tokens.length > 1 ? tokens.slice(0, -1).join(' ') : null,
+    lastName: tokens[tokens.length - 1],
+    email: null,
+    transactionId: null,
+  };
+};
+
+export const parseBatchInput = (text: string): BatchLookupRow[] => {
+  const parsed = Papa.parse<string[]>(text.replace(/^\uFEFF/, ''), { skipEmptyLines: 'greedy' });
+
+  return parsed.data.flatMap((cells, index) => {
+    const line = index + 1;
+    const values = cells.map(clean);
+
+    if (index === 0 && values[0] && HEADER_PATTERN.test(values[0])) {
+      return [];
+    }
+
+    if (values.filter(Boolean).length === 0) {
+      return [];
+    }
+
+    if (values.length === 1) {
+      return [parseListLine(values[0]!, line)];
+    }
+
+    const transactionId = values[3] ? parsePaymentIdentifier(values[3]) : null;
+    return [{
+      line,
+      firstName: values[0],
+      lastName: values[1] || null,
+      email: values[2] || null,
+      transactionId: transactionId?.type === 'transactionId' ? transactionId.transactionId : null,
+    }];
+  });
+};
+
+export const getBatchRowName = (row: BatchLookupRow): string =>
+  [row.firstName, row.lastName].filter(Boolean).join(' ');
+
+// Score a warehouse row (buyer or guest) against a batch row: a matching transaction ID
+// settles it, otherwise it's the seat lookup name score, lifted by a matching buyer email
+export const scoreBatchCandidate = (
+  row: BatchLookupRow,
+  candidate: { firstName: string | null; lastName: string | null; email: string | null; transactionId: string | null }
+): number => {
+  if (row.transactionId && candidate.transactionId === row.transactionId) {
+    return 1;
+  }
+
+  const name = getBatchRowName(row);
+  const nameScore = name
+    ? scoreSeatLookupMatch('name', name, { firstName: candidate.firstName, lastName: candidate.lastName, email: null, phone: null })
+    : 0;
+
+  const emailMatches = !!row.email && candidate.email?.toLowerCase() === row.email.toLowerCase();
+  if (!emailMatches) {
+    return nameScore;
+  }
+  return name ? Math.max(nameScore, EMAIL_MATCH_SCORE) : 1;
+};
+
+// Keep each payment's best candidate (buyer wins ties), drop weak ones and decide the bucket
+export const resolveBatchCandidates = (
+  candidates: BatchCandidate[]
+): { status: BatchLookupStatus; candidates: BatchCandidate[] } => {
+  const byPayment = new Map<number, BatchCandidate>();
+  candidates.forEach((candidate) => {
+    byPayment.set(candidate.paymentId, preferPartyMatch(byPayment.get(candidate.paymentId) || null, candidate));
+  });
+
+  const ranked = Array.from(byPayment.values())
+    .filter((candidate) => candidate.matchScore >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.matchScore - a.matchScore);
+
+  if (ranked.length === 0) {
+    return { status: 'not_found', candidates: [] };
+  }
+
+  const [best, runnerUp] = ranked;
+  const isClear = !runnerUp || runnerUp.matchScore < best.matchScore - CONFIDENT_MARGIN;
+
+  return best.matchScore >= CONFIDENT_SCORE && isClear
+    ? { status: 'matched', candidates: [best] }
+    : { status: 'ambiguous', candidates: ranked };
+};
@@ -1,6 +1,13 @@
 interface Result {
   transactionId: string;
   zipCode: string;
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  country?: string | null;
+  avsResult?: string | null;
+  cvvResult?: string | null;
   fullResponse?: Record<string, unknown>;
   createdAt?: string;
   amount?: number;
@@ -0,0 +1,94 @@
+import { readStore, updateStore } from '@/lib/local-store';
+
+// A guest (or a whole party when the payment has no attendee_guests rows)
+// marked as arrived at the door
+export interface CheckIn {
+  paymentId: number;
+  // attendee_guests.id, or null for a payment without guest rows
+  guestId: number | null;
+  eventId: number;
+  hostUserId: number;
+  checkedInAt: string;
+  checkedInBy: string | null;
+}
+
+interface CheckInStore {
+  checkIns: Record<string, CheckIn>;
+}
+
+const STORE_NAME = 'check-ins';
+const emptyStore = (): CheckInStore => ({ checkIns: {} });
+
+const checkInKey = (paymentId: number, guestId: number | null) => `${paymentId}:${guestId ?? 'party'}`;
+
+// Check in the given guests of a payment. Guests already checked in keep their original time.
+// `checkedInAt` defaults to now; check-ins queued offline pass the time they were made.
+export const checkInGuests = async (params: {
+  paymentId: number;
+  guestIds: Array<number | null>;
+  eventId: number;
+  hostUserId: number;
+  checkedInBy: string | null;
+  checkedInAt?: string;
+}): Promise<CheckIn[]> => {
+  const checkedInAt = params.checkedInAt || new Date().toISOString();
+
+  return updateStore(STORE_NAME, emptyStore(), (store) =>
+    params.guestIds.map((guestId) => {
+      const key = checkInKey(params.paymentId, guestId);
+      if (!store.checkIns[key]) {
+        store.checkIns[key] = {
+          paymentId: params.paymentId,
+          guestId,
+          eventId: params.eventId,
+          hostUserId: params.hostUserId,
+          checkedInAt,
+          checkedInBy: params.checkedInBy,
+        };
+      }
+      return store.checkIns[key];
+    })
+  );
+};
+
+// Undo check-ins; returns the ones that were removed
+export const undoCheckIns = async (params: {
+  paymentId: number;
+  guestIds: Array<number | null>;
+}): Promise<CheckIn[]> => {
+  return updateStore(STORE_NAME, emptyStore(), (store) =>
+    params.guestIds.flatMap((guestId) => {
+      const key = checkInKey(params.paymentId, guestId);
+      const existing = store.checkIns[key];
+      delete store.checkIns[key];
+      return existing ? [existing] : [];
+    })
+  );
+};
+
+export const getCheckInsForPayments = async (paymentIds: number[]): Promise<Map<number, CheckIn[]>> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  const wanted = new Set(paymentIds);
+  const byPayment = new Map<number, CheckIn[]>();
+
+  Object.values(store.checkIns)
+    .filter((checkIn) => wanted.has(checkIn.paymentId))
+    .forEach((checkIn) => {
+      byPayment.set(checkIn.paymentId, [...(byPayment.get(checkIn.paymentId) || []), checkIn]);
+    });
+
+  return byPayment;
+};
+
+export const getCheckInsForEvent = async (eventId: number): Promise<CheckIn[]> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  return Object.values(store.checkIns).filter((checkIn) => checkIn.eventId === eventId);
+};
+
+// Attach stored check-ins to seat lookup or roster results
+export const withCheckIns = async <T extends { paymentId: number; checkIns: CheckIn[] }>(
+  results: T[]
+): Promise<T[]> => {
+  const byPayment = await getCheckInsForPayments(results.map((result) => result.paymentId));
+  return results.map((result) => ({ ...result, checkIns: byPayment.get(result.paymentId) || [] }));
+};
@@ -1,4 +1,34 @@
 import { Pool, PoolConfig } from 'pg';
+import type { AttendeeNoteView } from '@/lib/attendee-flags';
+import { AttendeeHistory, summarizeAttendeeHistory } from '@/lib/attendee-history';
+import {
+  BatchCandidate,
+  BatchLookupRow,
+  BatchLookupStatus,
+  getBatchRowName,
+  resolveBatchCandidates,
+  scoreBatchCandidate,
+} from '@/lib/batch-lookup';
+import type { CheckIn } from '@/lib/check-ins';
+import { getHostTimezone } from '@/lib/hosts';
+import { getPhoneticKeys, MIN_MATCH_SCORE, tokenizeName } from '@/lib/name-match';
+import {
+  FAILED_STATUSES,
+  getPaymentState,
+  isAdmissible,
+  PaymentState,
+  REFUNDED_STATUSES,
+} from '@/lib/payment-status';
+import { detectSearchType, MAX_RECORD_ID, normalizePhone, PaymentIdentifier } from '@/lib/search-query';
+import { scoreSeatLookupMatch, SeatLookupMatchedBy, toGuestMatchFields } from '@/lib/seat-lookup-match';
+import { AttendeeGuest, formatSeats, parseGuests, parseSeats, RawSeat, Seat } from '@/lib/seats';
+import {
+  classifyEventDate,
+  DateWindow,
+  formatEventDate,
+  formatEventTime,
+  getDateKey,
+} from '@/lib/timezone';
 
 // Create a singleton pool instance
 let pool: Pool | null = null;
@@ -179,153 +209,952 @@ export const searchPayments = async (params: PaymentSearchParams): Promise<Payme
 
 // Seat lookup result interface
 export interface SeatLookupResult {
+  hostUserId: number;
+  eventId: number;
   eventName: string;
+  eventStartAt: string;
   eventStartDate: string;
   eventStartTime: string;
+  timezone: string;
   paymentId: number;
   amount: number;
+  // Amount left after refunds
+  netAmount: number;
+  refundAmount: number;
+  // payments.status as stored, and what it means at the door
+  paymentStatus: string | null;
+  paymentState: PaymentState;
+  // event_attendees row and buyer account (null for guest checkout) behind the payment,
+  // the identities staff notes are kept against
+  attendeeId: number;
+  buyerUserId: number | null;
   payerName: string | null;
+  payerFirstName: string | null;
+  payerLastName: string | null;
   payerEmail: string | null;
+  payerPhone: string | null;
+  seats: Seat[];
+  // Number of attendee_guests rows on the payment, including guests without a seat
+  guestCount: number;
+  // Display string derived from seats, one seat per line
   seatInfo: string | null;
   transactionId: string | null;
+  // attendee_guests rows that have a name, searchable alongside the buyer
+  guests: AttendeeGuest[];
+  // Relevance to the search query from 0 to 1; 1 is an exact match
+  matchScore: number;
+  // Whether the search matched the buyer or one of their guests, and which guest
+  matchedBy: SeatLookupMatchedBy;
+  matchedGuest: AttendeeGuest | null;
+  // Door check-ins from the local store, attached by the API routes
+  checkIns: CheckIn[];
+  // Staff notes and flags on the attendee or buyer, also from the local store
+  notes: AttendeeNoteView[];
 }
 
-// Search payments by name or email for a specific host user
-export const searchPaymentsByNameOrEmail = async (params: {
-  searchQuery: string;
-  hostUserId: number;
-}): Promise<SeatLookupResult[]> => {
-  // Optimized query: Start with events filtered by host_user_id to use index_events_on_user_id
-  // This avoids sequential scans of all event_attendees and is ~5-6x faster
-  // Key optimization: Filter attendees in the JOIN condition instead of WHERE clause
+// Row shape shared by the seat lookup and roster queries: one payment with its
+// attendee, buyer email and aggregated attendee_guests seats
+interface SeatLookupRow {
+  payment_id: number;
+  amount: number;
+  created_at: string;
+  event_id: number;
+  phone_number: string | null;
+  host_user_id: number;
+  event_name: string | null;
+  start_at: string;
+  event_attendee_id: number;
+  buyer_user_id: number | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  seats: RawSeat[] | null;
+  guest_count: number | string;
+  transaction_id: string | null;
+  status: string | null;
+  refund_amount: number | string | null;
+}
+
+// Aggregates a payment's attendee_guests seats into one JSON array per row and counts its guests
+const SEATS_AGGREGATE = `
+      json_agg(
+        json_build_object(
+          'guest_id', ag.id,
+          'seat_obj', ag.seat_obj,
+          'seat_id', ag.seat_id,
+          'first_name', ag.first_name,
+          'last_name', ag.last_name
+        ) ORDER BY ag.id
+      ) FILTER (WHERE ag.id IS NOT NULL) as seats,
+      COUNT(ag.id) as guest_count`;
+
+// `matchedGuestId` is the attendee_guests row a guest-level search matched, if any
+const toSeatLookupResult = (
+  row: SeatLookupRow,
+  matchScore: number,
+  matchedGuestId: number | null = null
+): SeatLookupResult => {
+  // Format in the host's IANA zone so DST is handled without manual offsets
+  const startDate = new Date(row.start_at);
+  const timezone = getHostTimezone(Number(row.host_user_id));
+
+  const attendeeName = row.first_name && row.last_name
+    ? `${row.first_name} ${row.last_name}`
+    : row.first_name || row.last_name || null;
+
+  const seats = parseSeats(row.seats);
+  const guests = parseGuests(row.seats);
+  const matchedGuest = matchedGuestId === null
+    ? null
+    : guests.find((guest) => guest.guestId === matchedGuestId) || null;
+  const amount = Number(row.amount);
+  const refundAmount = Number(row.refund_amount || 0);
+
+  return {
+    hostUserId: Number(row.host_user_id),
+    eventId: Number(row.event_id),
+    eventName: row.event_name || `Event #${row.event_id}`,
+    eventStartAt: startDate.toISOString(),
+    eventStartDate: formatEventDate(startDate, timezone),
+    eventStartTime: formatEventTime(startDate, timezone),
+    timezone,
+    paymentId: row.payment_id,
+    amount,
+    netAmount: amount - refundAmount,
+    refundAmount,
+    paymentStatus: row.status,
+    paymentState: getPaymentState(row.status, amount, refundAmount),
+    attendeeId: Number(row.event_attendee_id),
+    buyerUserId: row.buyer_user_id === null ? null : Number(row.buyer_user_id),
+    payerName: attendeeName,
+    payerFirstName: row.first_name,
+    payerLastName: row.last_name,
+    payerEmail: row.email, // event_attendees has no email, so this is the buyer's account email
+    payerPhone: row.phone_number,
+    seats,
+    guestCount: Number(row.guest_count),
+    seatInfo: formatSeats(seats),
+    transactionId: row.transaction_id,
+    guests,
+    matchScore,
+    matchedBy: matchedGuest ? 'guest' : 'buyer',
+    matchedGuest,
+    checkIns: [],
+    notes: [],
+  };
+};
+
+// Load full seat lookup rows (with aggregated seats) for specific payments,
+// keeping the order of `paymentIds`
+const fetchSeatLookupRows = async (paymentIds: number[], hostUserIds: number[]): Promise<SeatLookupRow[]> => {
+  if (paymentIds.length === 0) {
+    return [];
+  }
+
   const queryText = `
     SELECT
       p.id as payment_id,
       p.amount,
       p.created_at,
       p.event_id,
+      p.phone_number,
+      p.transaction_id,
+      p.status,
+      p.refund_amount,
+      e.user_id as host_user_id,
       e.start_at,
       e.name as event_name,
+      p.event_attendee_id,
+      p.user_id as buyer_user_id,
       ea.first_name,
       ea.last_name,
-      json_agg(
-        json_build_object(
-          'seat_obj', ag.seat_obj,
-          'seat_id', ag.seat_id
-        ) ORDER BY ag.id
-      ) FILTER (WHERE ag.id IS NOT NULL) as seats
+      u.email,${SEATS_AGGREGATE}
     FROM events e
-    INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+    INNER JOIN payments p ON p.event_id = e.id AND p.id = ANY($2)
     INNER JOIN event_attendees ea ON ea.id = p.event_attendee_id
-      AND (
-        LOWER(ea.first_name) LIKE LOWER($2)
-        OR LOWER(ea.last_name) LIKE LOWER($2)
-        OR LOWER(CONCAT(ea.first_name, ' ', ea.last_name)) LIKE LOWER($2)
-      )
+    LEFT JOIN users u ON u.id = p.user_id
     LEFT JOIN attendee_guests ag ON ag.payment_id = p.id AND ag.event_attendee_id = ea.id
-    WHERE e.user_id = $1
-    GROUP BY p.id, p.amount, p.created_at, p.event_id, e.start_at, e.name, ea.first_name, ea.last_name
-    ORDER BY p.created_at DESC
+    WHERE e.user_id = ANY($1)
+    GROUP BY p.id, p.amount, p.created_at, p.event_id, p.phone_number, p.transaction_id, p.status, p.refund_amount, e.user_id, e.start_at, e.name, p.event_attendee_id, p.user_id, ea.first_name, ea.last_name, u.email
   `;
 
-  const searchPattern = `%${params.searchQuery}%`;
+  const rows = await query<SeatLookupRow>(queryText, [hostUserIds, paymentIds]);
+  const byId = new Map(rows.map((row) => [Number(row.payment_id), row]));
+
+  return paymentIds.flatMap((paymentId) => {
+    const row = byId.get(paymentId);
+    return row ? [row] : [];
+  });
+};
+
+// Date filter for the seat lookup: any of the today/upcoming/past windows
+// (by the event's local date), or an inclusive YYYY-MM-DD range
+export interface SeatLookupDateFilter {
+  windows?: DateWindow[];
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface SeatLookupPage {
+  results: SeatLookupResult[];
+  // Matches per window across the whole history, regardless of the filter or page
+  counts: Record<DateWindow, number>;
+  // Matches inside the date filter
+  total: number;
+  // Refunded or failed matches left out because includeInvalid wasn't set
+  hiddenInvalid: number;
+  page: number;
+  pageSize: number | null;
+  hasMore: boolean;
+}
+
+// SQL version of isAdmissible(getPaymentState(...)) for the payments row `alias`;
+// change both together
+const admissibleSql = (alias: string) => `(
+  LOWER(TRIM(COALESCE(${alias}.status, ''))) <> ALL(ARRAY[${[...FAILED_STATUSES, ...REFUNDED_STATUSES]
+    .map((status) => `'${status}'`)
+    .join(', ')}])
+  AND NOT (COALESCE(${alias}.refund_amount, 0) > 0 AND COALESCE(${alias}.refund_amount, 0) >= COALESCE(${alias}.amount, 0))
+)`;
+
+// Search payments by name, email or phone across the hosts the caller is allowed to see.
+// Name searches run in three passes: the distinct names of candidate buyers and guests
+// are loaded and scored here; a second query keeps the payments of names that scored
+// well enough and does the bucketing, date filtering and paging in SQL, by each event's
+// local date in its host's timezone; a seat query then loads just the requested page.
+// Email and phone scores are simple enough to compute in SQL, so those skip the first pass.
+// Name searches also match named guests on each payment; a result records whether the
+// buyer or a guest matched (matchedBy/matchedGuest).
+// The candidate conditions are mirrored by isSeatLookupCandidate in lib/seat-lookup-match
+// for the offline kiosk; change both together.
+// Refunded and failed payments are dropped unless `includeInvalid` is set.
+export const searchPaymentsByNameOrEmail = async (params: {
+  searchQuery: string;
+  hostUserIds: number[];
+  dateFilter?: SeatLookupDateFilter;
+  page?: number;
+  pageSize?: number;
+  includeInvalid?: boolean;
+}): Promise<SeatLookupPage> => {
+  const searchType = detectSearchType(params.searchQuery);
+  const page = Math.max(params.page || 1, 1);
+  const emptyPage: SeatLookupPage = {
+    results: [],
+    counts: { past: 0, today: 0, upcoming: 0 },
+    total: 0,
+    hiddenInvalid: 0,
+    page,
+    pageSize: params.pageSize || null,
+    hasMore: false,
+  };
+
+  // Name searches also pull in phonetic candidates ($3/$4 are soundex codes of the
+  // first and last query tokens, requires the fuzzystrmatch extension).
+  // The same conditions run against event_attendees (the buyer) and attendee_guests.
+  const isMultiTokenName = tokenizeName(params.searchQuery).length > 1;
+  const nameMatch = (alias: 'ea' | 'ag') => {
+    const phoneticMatch = isMultiTokenName
+      ? `(soundex(${alias}.first_name) = $3 AND soundex(${alias}.last_name) = $4)
+        OR (soundex(${alias}.first_name) = $4 AND soundex(${alias}.last_name) = $3)`
+      : `soundex(${alias}.first_name) = $3 OR soundex(${alias}.last_name) = $3`;
 
-  console.log('Executing optimized seat lookup query (events-first join order):', queryText);
-  console.log('Query parameters:', [params.hostUserId, searchPattern]);
+    return `(
+        LOWER(${alias}.first_name) LIKE LOWER($2)
+        OR LOWER(${alias}.last_name) LIKE LOWER($2)
+        OR LOWER(CONCAT(${alias}.first_name, ' ', ${alias}.last_name)) LIKE LOWER($2)
+        OR ${phoneticMatch}
+      )`;
+  };
+
+  // A regular's whole history shares a handful of spellings, so this stays small
+  const nameQueryText = `
+    SELECT ea.first_name, ea.last_name
+    FROM events e
+    INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+    INNER JOIN event_attendees ea ON ea.id = p.event_attendee_id
+      AND ${nameMatch('ea')}
+    WHERE e.user_id = ANY($1)
+    UNION
+    SELECT ag.first_name, ag.last_name
+    FROM events e
+    INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+    INNER JOIN attendee_guests ag ON ag.payment_id = p.id AND ag.event_attendee_id = p.event_attendee_id
+      AND ${nameMatch('ag')}
+    WHERE e.user_id = ANY($1)
+  `;
+
+  const phoneticKeys = getPhoneticKeys(params.searchQuery);
+  // Postgres rejects parameters the query text never references, so only pass what's used
+  const nameQueryParams: unknown[] = [params.hostUserIds, `%${params.searchQuery}%`, phoneticKeys.first];
+  if (isMultiTokenName) {
+    nameQueryParams.push(phoneticKeys.last);
+  }
+
+  const queryParams: unknown[] = [params.hostUserIds, params.hostUserIds.map(getHostTimezone)];
+  const addParam = (value: unknown) => {
+    queryParams.push(value);
+    return `$${queryParams.length}`;
+  };
+
+  // Each event's local date, and today's, in its host's timezone
+  const eventColumns = `
+      p.created_at,
+      (e.start_at::timestamptz AT TIME ZONE h.tz)::date AS event_date,
+      (now() AT TIME ZONE h.tz)::date AS today,
+      ${admissibleSql('p')} AS is_admissible`;
+  const hostEvents = `
+    FROM unnest($1::int[], $2::text[]) AS h(host_id, tz)
+    INNER JOIN events e ON e.user_id = h.host_id
+    INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL`;
+
+  let partyMatchesText: string;
 
   try {
-    const rows = await query<{
-      payment_id: number;
-      amount: number;
-      created_at: string;
-      event_id: number;
-      event_name: string | null;
-      start_at: string;
-      first_name: string | null;
-      last_name: string | null;
-      seats: Array<{
-        seat_obj: {
-          components?: Array<{
-            key: string;
-            label: string;
-            value: string;
-          }>;
-        } | null;
-        seat_id: string | null;
-      }> | null;
-    }>(queryText, [params.hostUserId, searchPattern]);
-
-    console.log('Query returned rows:', rows.length);
-
-    return rows.map((row) => {
-      // Manual timezone offset (set OFFSET=5 for EST, OFFSET=4 for EDT)
-      const startDate = new Date(row.start_at);
-      const offset = parseInt(process.env.OFFSET || '5');
-      startDate.setHours(startDate.getHours() - offset);
-
-      const eventDate = startDate.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-      });
-
-      const eventTime = startDate.toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-        hour12: true,
-      });
-
-      const attendeeName = row.first_name && row.last_name
-        ? `${row.first_name} ${row.last_name}`
-        : row.first_name || row.last_name || null;
-
-      // Extract and combine seat info from all seats
-      // Prefer seat_obj.components, fallback to seat_id if seat_obj is empty
-      // Each seat on a new line
-      let seatInfo: string | null = null;
-      if (row.seats && Array.isArray(row.seats) && row.seats.length > 0) {
-        const allSeats = row.seats
-          .map((seat) => {
-            // Check if seat_obj has components
-            if (seat.seat_obj?.components && Array.isArray(seat.seat_obj.components) && seat.seat_obj.components.length > 0) {
-              const components = seat.seat_obj.components
-                .map((comp) => `${comp.label}: ${comp.value}`)
-                .join(', ');
-              return components;
-            }
-            // Fallback to seat_id if seat_obj is empty or null
-            else if (seat.seat_id) {
-              return seat.seat_id;
-            }
-            return null;
-          })
-          .filter((seat) => seat !== null && seat.length > 0);
-
-        if (allSeats.length > 0) {
-          seatInfo = allSeats.join('\n');
-        }
+    if (searchType === 'name') {
+      const names = await query<{ first_name: string | null; last_name: string | null }>(nameQueryText, nameQueryParams);
+      const accepted = names
+        .map((name) => ({
+          ...name,
+          score: scoreSeatLookupMatch('name', params.searchQuery, toGuestMatchFields({
+            firstName: name.first_name,
+            lastName: name.last_name,
+          })),
+        }))
+        .filter((name) => name.score >= MIN_MATCH_SCORE);
+
+      console.log('Seat lookup names:', names.length, 'candidates,', accepted.length, 'matched');
+      if (accepted.length === 0) {
+        return emptyPage;
       }
 
-      return {
-        eventName: row.event_name || `Event #${row.event_id}`,
-        eventStartDate: eventDate,
-        eventStartTime: eventTime,
-        paymentId: row.payment_id,
-        amount: Number(row.amount),
-        payerName: attendeeName,
-        payerEmail: null, // event_attendees doesn't have email column
-        seatInfo: seatInfo,
-        transactionId: null,
-      };
+      const firstNames = addParam(accepted.map((name) => name.first_name));
+      const lastNames = addParam(accepted.map((name) => name.last_name));
+      const scores = addParam(accepted.map((name) => name.score));
+      const nameJoin = (alias: 'ea' | 'ag') => `
+        INNER JOIN unnest(${firstNames}::text[], ${lastNames}::text[], ${scores}::float8[]) AS n(first_name, last_name, score)
+          ON n.first_name IS NOT DISTINCT FROM ${alias}.first_name AND n.last_name IS NOT DISTINCT FROM ${alias}.last_name`;
+
+      // One row per payment: the best of the buyer and any guests that matched; on a tie
+      // the buyer wins, as in preferPartyMatch
+      partyMatchesText = `
+        SELECT DISTINCT ON (payment_id) *
+        FROM (
+          SELECT p.id AS payment_id, n.score AS match_score, NULL::int AS guest_id, ${eventColumns}
+          ${hostEvents}
+          INNER JOIN event_attendees ea ON ea.id = p.event_attendee_id
+          ${nameJoin('ea')}
+          UNION ALL
+          SELECT p.id AS payment_id, n.score AS match_score, ag.id AS guest_id, ${eventColumns}
+          ${hostEvents}
+          INNER JOIN attendee_guests ag ON ag.payment_id = p.id AND ag.event_attendee_id = p.event_attendee_id
+          ${nameJoin('ag')}
+        ) candidates
+        ORDER BY payment_id, match_score DESC, guest_id IS NULL DESC, guest_id
+      `;
+    } else if (searchType === 'email') {
+      const pattern = addParam(`%${params.searchQuery}%`);
+      const email = addParam(params.searchQuery.trim().toLowerCase());
+      partyMatchesText = `
+        SELECT p.id AS payment_id, (CASE WHEN LOWER(u.email) = ${email} THEN 1 ELSE 0.8 END)::float8 AS match_score,
+          NULL::int AS guest_id, ${eventColumns}
+        ${hostEvents}
+        INNER JOIN users u ON u.id = p.user_id AND LOWER(u.email) LIKE LOWER(${pattern})
+      `;
+    } else {
+      const pattern = addParam(`%${normalizePhone(params.searchQuery)}%`);
+      const phone = addParam(normalizePhone(params.searchQuery));
+      // Same digits as normalizePhone: non-digits and a leading US country code dropped
+      partyMatchesText = `
+        SELECT p.id AS payment_id,
+          (CASE WHEN regexp_replace(regexp_replace(p.phone_number, '\\D', '', 'g'), '^1(\\d{10})$', '\\1') = ${phone}
+            THEN 1 ELSE 0.8 END)::float8 AS match_score,
+          NULL::int AS guest_id, ${eventColumns}
+        ${hostEvents}
+        WHERE regexp_replace(p.phone_number, '\\D', '', 'g') LIKE ${pattern}
+      `;
+    }
+
+    const filter = params.dateFilter || {};
+    const filterConditions = ['TRUE'];
+    if (filter.windows) {
+      filterConditions.push(`date_window = ANY(${addParam(filter.windows)}::text[])`);
+    }
+    if (filter.dateFrom) {
+      filterConditions.push(`event_date >= ${addParam(filter.dateFrom)}::date`);
+    }
+    if (filter.dateTo) {
+      filterConditions.push(`event_date <= ${addParam(filter.dateTo)}::date`);
+    }
+    const inFilter = filterConditions.join(' AND ');
+
+    const matchesText = `
+      WITH party_matches AS (${partyMatchesText}),
+      matches AS (
+        SELECT *,
+          CASE WHEN event_date < today THEN 'past' WHEN event_date > today THEN 'upcoming' ELSE 'today' END AS date_window
+        FROM party_matches
+      )
+    `;
+
+    const countsText = `${matchesText}
+      SELECT date_window, is_admissible, (${inFilter}) AS in_filter, COUNT(*)::int AS count
+      FROM matches
+      GROUP BY 1, 2, 3
+    `;
+
+    // Best matches first; ties keep the most recent purchase first
+    const pageParams = [...queryParams];
+    let pageLimit = '';
+    if (params.pageSize) {
+      pageParams.push(params.pageSize, (page - 1) * params.pageSize);
+      pageLimit = `LIMIT $${pageParams.length - 1} OFFSET $${pageParams.length}`;
+    }
+    const pageText = `${matchesText}
+      SELECT payment_id, match_score, guest_id
+      FROM matches
+      WHERE ${params.includeInvalid ? 'TRUE' : 'is_admissible'} AND ${inFilter}
+      ORDER BY match_score DESC, created_at DESC, payment_id DESC
+      ${pageLimit}
+    `;
+
+    console.log(`Executing seat lookup query (${searchType} match):`, pageText);
+    console.log('Query parameters:', pageParams);
+
+    const [buckets, pageMatches] = await Promise.all([
+      query<{ date_window: DateWindow; is_admissible: boolean; in_filter: boolean; count: number }>(countsText, queryParams),
+      query<{ payment_id: number; match_score: number; guest_id: number | null }>(pageText, pageParams),
+    ]);
+
+    const counts: Record<DateWindow, number> = { past: 0, today: 0, upcoming: 0 };
+    let total = 0;
+    let hiddenInvalid = 0;
+    buckets.forEach((bucket) => {
+      if (!bucket.is_admissible && !params.includeInvalid) {
+        hiddenInvalid += bucket.count;
+        return;
+      }
+      counts[bucket.date_window] += bucket.count;
+      if (bucket.in_filter) {
+        total += bucket.count;
+      }
     });
+
+    const rows = await fetchSeatLookupRows(
+      pageMatches.map((match) => Number(match.payment_id)),
+      params.hostUserIds
+    );
+    const byPayment = new Map(pageMatches.map((match) => [Number(match.payment_id), match]));
+
+    return {
+      ...emptyPage,
+      results: rows.map((row) => {
+        const match = byPayment.get(Number(row.payment_id));
+        return toSeatLookupResult(
+          row,
+          Number(match?.match_score ?? 0),
+          match?.guest_id === null || match?.guest_id === undefined ? null : Number(match.guest_id)
+        );
+      }),
+      counts,
+      total,
+      hiddenInvalid,
+      hasMore: params.pageSize ? page * params.pageSize < total : false,
+    };
   } catch (error) {
     console.error('Database query failed:', error);
-    console.error('Query was:', queryText);
-    console.error('Parameters were:', [params.hostUserId, searchPattern]);
+    if (searchType === 'name') {
+      console.error('Name query was:', nameQueryText);
+    }
+    console.error('Parameters were:', queryParams);
     throw error;
   }
 };
 
+// Look up a single payment by its ID or processor transaction ID, as scanned from a
+// guest's confirmation. Returns null when it doesn't exist, has no attendee, or belongs
+// to a host outside the scope. Refunded and failed payments are returned (flagged by
+// paymentState) so door staff can see why a scanned ticket isn't valid.
+export const findPaymentByIdentifier = async (params: {
+  identifier: PaymentIdentifier;
+  hostUserIds: number[];
+}): Promise<SeatLookupResult | null> => {
+  let paymentId: number | null = null;
+
+  if (params.identifier.type === 'paymentId') {
+    // Postgres rejects an out-of-range int4 instead of finding nothing
+    if (params.identifier.paymentId > MAX_RECORD_ID) {
+      return null;
+    }
+    paymentId = params.identifier.paymentId;
+  } else {
+    const matches = await query<{ id: number }>(
+      `SELECT p.id
+       FROM events e
+       INNER JOIN payments p ON p.event_id = e.id AND p.transaction_id = $2
+       WHERE e.user_id = ANY($1) AND p.event_attendee_id IS NOT NULL
+       LIMIT 1`,
+      [params.hostUserIds, params.identifier.transactionId]
+    );
+    paymentId = matches.length > 0 ? Number(matches[0].id) : null;
+  }
+
+  if (paymentId === null) {
+    return null;
+  }
+
+  const rows = await fetchSeatLookupRows([paymentId], params.hostUserIds);
+  return rows.length > 0 ? toSeatLookupResult(rows[0], 1) : null;
+};
+
+export interface BatchLookupEntry {
+  row: BatchLookupRow;
+  status: BatchLookupStatus;
+  // The matched payment, or every plausible one for an ambiguous row, best first
+  results: SeatLookupResult[];
+}
+
+// Resolve a whole batch of names / emails / transaction IDs in one query: the rows are
+// passed as arrays and unnested, joined against buyers (name, email or transaction ID)
+// and named guests (name), then scored and bucketed with lib/batch-lookup. Name
+// conditions mirror searchPaymentsByNameOrEmail. A second query loads seats for every
+// payment that made it into a bucket.
+export const batchSeatLookup = async (params: {
+  rows: BatchLookupRow[];
+  hostUserIds: number[];
+  dateFilter?: SeatLookupDateFilter;
+  includeInvalid?: boolean;
+}): Promise<BatchLookupEntry[]> => {
+  if (params.rows.length === 0) {
+    return [];
+  }
+
+  const names = params.rows.map(getBatchRowName);
+  const keys = names.map((name) => (name ? getPhoneticKeys(name) : null));
+  const isMultiToken = names.map((name) => tokenizeName(name).length > 1);
+
+  const nameMatch = (alias: 'hp' | 'ag') => `(
+      i.name_pattern IS NOT NULL AND (
+        LOWER(${alias}.first_name) LIKE LOWER(i.name_pattern)
+        OR LOWER(${alias}.last_name) LIKE LOWER(i.name_pattern)
+        OR LOWER(CONCAT(${alias}.first_name, ' ', ${alias}.last_name)) LIKE LOWER(i.name_pattern)
+        OR (i.key_last IS NULL AND (soundex(${alias}.first_name) = i.key_first OR soundex(${alias}.last_name) = i.key_first))
+        OR (soundex(${alias}.first_name) = i.key_first AND soundex(${alias}.last_name) = i.key_last)
+        OR (soundex(${alias}.first_name) = i.key_last AND soundex(${alias}.last_name) = i.key_first)
+      )
+    )`;
+
+  const queryText = `
+    WITH input AS (
+      SELECT *
+      FROM unnest($2::int[], $3::text[], $4::text[], $5::text[], $6::text[], $7::text[])
+        AS i(idx, name_pattern, key_first, key_last, email, transaction_id)
+    ),
+    host_payments AS (
+      SELECT
+        p.id as payment_id,
+        p.transaction_id,
+        p.status,
+        p.amount,
+        p.refund_amount,
+        p.event_attendee_id,
+        e.user_id as host_user_id,
+        e.start_at,
+        ea.first_name,
+        ea.last_name,
+        u.email
+      FROM events e
+      INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+      INNER JOIN event_attendees ea ON ea.id = p.event_attendee_id
+      LEFT JOIN users u ON u.id = p.user_id
+      WHERE e.user_id = ANY($1)
+    )
+    SELECT i.idx, hp.payment_id, hp.status, hp.amount, hp.refund_amount, hp.host_user_id, hp.start_at,
+      NULL::int as guest_id, hp.first_name, hp.last_name, hp.email, hp.transaction_id
+    FROM host_payments hp
+    INNER JOIN input i ON hp.transaction_id = i.transaction_id
+      OR LOWER(hp.email) = LOWER(i.email)
+      OR ${nameMatch('hp')}
+    UNION ALL
+    SELECT i.idx, hp.payment_id, hp.status, hp.amount, hp.refund_amount, hp.host_user_id, hp.start_at,
+      ag.id as guest_id, ag.first_name, ag.last_name, NULL as email, NULL as transaction_id
+    FROM host_payments hp
+    INNER JOIN attendee_guests ag ON ag.payment_id = hp.payment_id AND ag.event_attendee_id = hp.event_attendee_id
+    INNER JOIN input i ON ${nameMatch('ag')}
+  `;
+
+  const candidates = await query<{
+    idx: number;
+    payment_id: number;
+    status: string | null;
+    amount: number | string;
+    refund_amount: number | string | null;
+    host_user_id: number;
+    start_at: string;
+    guest_id: number | null;
+    first_name: string | null;
+    last_name: string | null;
+    email: string | null;
+    transaction_id: string | null;
+  }>(queryText, [
+    params.hostUserIds,
+    params.rows.map((_, index) => index),
+    names.map((name) => (name ? `%${name}%` : null)),
+    keys.map((key) => key?.first || null),
+    keys.map((key, index) => (key && isMultiToken[index] ? key.last : null)),
+    params.rows.map((row) => row.email),
+    params.rows.map((row) => row.transactionId),
+  ]);
+
+  console.log('Batch seat lookup returned candidates:', candidates.length, 'for rows:', params.rows.length);
+
+  const filter = params.dateFilter || {};
+  const byRow = new Map<number, BatchCandidate[]>();
+
+  candidates.forEach((candidate) => {
+    const timezone = getHostTimezone(Number(candidate.host_user_id));
+    const window = classifyEventDate(candidate.start_at, timezone);
+    const dateKey = getDateKey(candidate.start_at, timezone);
+    const state = getPaymentState(candidate.status, Number(candidate.amount), Number(candidate.refund_amount || 0));
+
+    if (
+      (filter.windows && !filter.windows.includes(window)) ||
+      (filter.dateFrom && dateKey < filter.dateFrom) ||
+      (filter.dateTo && dateKey > filter.dateTo) ||
+      (!params.includeInvalid && !isAdmissible(state))
+    ) {
+      return;
+    }
+
+    const idx = Number(candidate.idx);
+    const scored: BatchCandidate = {
+      paymentId: Number(candidate.payment_id),
+      matchScore: scoreBatchCandidate(params.rows[idx], {
+        firstName: candidate.first_name,
+        lastName: candidate.last_name,
+        email: candidate.email,
+        transactionId: candidate.transaction_id,
+      }),
+      matchedBy: candidate.guest_id === null ? 'buyer' : 'guest',
+      guestId: candidate.guest_id === null ? null : Number(candidate.guest_id),
+    };
+    byRow.set(idx, [...(byRow.get(idx) || []), scored]);
+  });
+
+  const resolved = params.rows.map((row, idx) => ({ row, ...resolveBatchCandidates(byRow.get(idx) || []) }));
+
+  const paymentIds = Array.from(new Set(resolved.flatMap((entry) => entry.candidates.map((candidate) => candidate.paymentId))));
+  const rows = new Map(
+    (await fetchSeatLookupRows(paymentIds, params.hostUserIds)).map((row) => [Number(row.payment_id), row])
+  );
+
+  return resolved.map((entry) => ({
+    row: entry.row,
+    status: entry.status,
+    results: entry.candidates.flatMap((candidate) => {
+      const row = rows.get(candidate.paymentId);
+      return row ? [toSeatLookupResult(row, candidate.matchScore, candidate.guestId)] : [];
+    }),
+  }));
+};
+
+// Everything a host has sold to the attendee behind one payment: payments on the same
+// event_attendees row or by the same buyer account (payments.user_id), limited to that
+// payment's host. Refunded and failed payments are included so the refund history is
+// complete. Returns null when the payment doesn't exist or is outside the scope.
+export const getAttendeeHistory = async (params: {
+  paymentId: number;
+  hostUserIds: number[];
+}): Promise<AttendeeHistory | null> => {
+  const anchors = await query<{
+    user_id: number | null;
+    event_attendee_id: number;
+    host_user_id: number;
+  }>(
+    `SELECT p.user_id, p.event_attendee_id, e.user_id as host_user_id
+     FROM events e
+     INNER JOIN payments p ON p.event_id = e.id AND p.id = $2
+     WHERE e.user_id = ANY($1) AND p.event_attendee_id IS NOT NULL`,
+    [params.hostUserIds, params.paymentId]
+  );
+
+  if (anchors.length === 0) {
+    return null;
+  }
+
+  const anchor = anchors[0];
+  const hostUserId = Number(anchor.host_user_id);
+
+  // A NULL user_id (guest checkout) never equals anything, leaving just the attendee match
+  const matches = await query<{ id: number }>(
+    `SELECT p.id
+     FROM events e
+     INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+       AND (p.event_attendee_id = $2 OR p.user_id = $3)
+     WHERE e.user_id = $1
+     ORDER BY e.start_at DESC, p.created_at DESC`,
+    [hostUserId, anchor.event_attendee_id, anchor.user_id]
+  );
+
+  const rows = await fetchSeatLookupRows(matches.map((match) => Number(match.id)), [hostUserId]);
+  const payments = rows.map((row) => toSeatLookupResult(row, 1));
+  const current = payments.find((payment) => payment.paymentId === params.paymentId);
+
+  return {
+    paymentId: params.paymentId,
+    hostUserId,
+    name: current?.payerName || null,
+    email: current?.payerEmail || null,
+    phone: current?.payerPhone || null,
+    payments,
+    summary: summarizeAttendeeHistory(payments),
+  };
+};
+
+// Event summary for the roster picker
+export interface HostEvent {
+  id: number;
+  hostUserId: number;
+  name: string;
+  startAt: string;
+  startDate: string;
+  startTime: string;
+  timezone: string;
+}
+
+const toHostEvent = (row: {
+  id: number;
+  host_user_id: number;
+  name: string | null;
+  start_at: string;
+}): HostEvent => {
+  const startDate = new Date(row.start_at);
+  const timezone = getHostTimezone(Number(row.host_user_id));
+
+  return {
+    id: Number(row.id),
+    hostUserId: Number(row.host_user_id),
+    name: row.name || `Event #${row.id}`,
+    startAt: startDate.toISOString(),
+    startDate: formatEventDate(startDate, timezone),
+    startTime: formatEventTime(startDate, timezone),
+    timezone,
+  };
+};
+
+// List current and upcoming events for the given hosts, soonest first.
+// An event without end_at counts as current for 6 hours after it starts.
+export const listHostEvents = async (params: {
+  hostUserIds: number[];
+  limit?: number;
+}): Promise<HostEvent[]> => {
+  const queryText = `
+    SELECT e.id, e.user_id as host_user_id, e.name, e.start_at
+    FROM events e
+    WHERE e.user_id = ANY($1)
+      AND COALESCE(e.end_at, e.start_at + INTERVAL '6 hours') >= NOW()
+    ORDER BY e.start_at ASC
+    LIMIT $2
+  `;
+
+  const rows = await query<{
+    id: number;
+    host_user_id: number;
+    name: string | null;
+    start_at: string;
+  }>(queryText, [params.hostUserIds, params.limit || 100]);
+
+  return rows.map(toHostEvent);
+};
+
+// Events whose local start date (in the host's timezone) falls in an inclusive
+// YYYY-MM-DD range, past or future. The SQL window is padded a day either side
+// and trimmed here, since each host has its own zone.
+export const listHostEventsBetween = async (params: {
+  hostUserIds: number[];
+  dateFrom: string;
+  dateTo: string;
+  limit?: number;
+}): Promise<HostEvent[]> => {
+  const queryText = `
+    SELECT e.id, e.user_id as host_user_id, e.name, e.start_at
+    FROM events e
+    WHERE e.user_id = ANY($1)
+      AND e.start_at >= $2::date - INTERVAL '1 day'
+      AND e.start_at < $3::date + INTERVAL '2 days'
+    ORDER BY e.start_at ASC
+    LIMIT $4
+  `;
+
+  const rows = await query<{
+    id: number;
+    host_user_id: number;
+    name: string | null;
+    start_at: string;
+  }>(queryText, [params.hostUserIds, params.dateFrom, params.dateTo, params.limit || 500]);
+
+  return rows.map(toHostEvent).filter((event) => {
+    const dateKey = getDateKey(event.startAt, event.timezone);
+    return dateKey >= params.dateFrom && dateKey <= params.dateTo;
+  });
+};
+
+// Full attendee roster for one event, with the same seat parsing as the seat lookup.
+// Returns null when the event doesn't exist or belongs to a host outside the scope.
+export const getEventRoster = async (params: {
+  eventId: number;
+  hostUserIds: number[];
+  includeInvalid?: boolean;
+}): Promise<{ event: HostEvent; attendees: SeatLookupResult[] } | null> => {
+  const eventRows = await query<{
+    id: number;
+    host_user_id: number;
+    name: string | null;
+    start_at: string;
+  }>(
+    `SELECT e.id, e.user_id as host_user_id, e.name, e.start_at
+     FROM events e
+     WHERE e.id = $1 AND e.user_id = ANY($2)`,
+    [params.eventId, params.hostUserIds]
+  );
+
+  if (eventRows.length === 0) {
+    return null;
+  }
+
+  const queryText = `
+    SELECT
+      p.id as payment_id,
+      p.amount,
+      p.created_at,
+      p.event_id,
+      p.phone_number,
+      p.transaction_id,
+      p.status,
+      p.refund_amount,
+      e.user_id as host_user_id,
+      e.start_at,
+      e.name as event_name,
+      p.event_attendee_id,
+      p.user_id as buyer_user_id,
+      ea.first_name,
+      ea.last_name,
+      u.email,${SEATS_AGGREGATE}
+    FROM events e
+    INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL
+    INNER JOIN event_attendees ea ON ea.id = p.event_attendee_id
+    LEFT JOIN users u ON u.id = p.user_id
+    LEFT JOIN attendee_guests ag ON ag.payment_id = p.id AND ag.event_attendee_id = ea.id
+    WHERE e.id = $1 AND e.user_id = ANY($2)
+    GROUP BY p.id, p.amount, p.created_at, p.event_id, p.phone_number, p.transaction_id, p.status, p.refund_amount, e.user_id, e.start_at, e.name, p.event_attendee_id, p.user_id, ea.first_name, ea.last_name, u.email
+    ORDER BY ea.last_name, ea.first_name
+  `;
+
+  const rows = await query<SeatLookupRow>(queryText, [params.eventId, params.hostUserIds]);
+
+  const attendees = rows.map((row) => toSeatLookupResult(row, 1));
+
+  return {
+    event: toHostEvent(eventRows[0]),
+    // Refunded and failed payments don't belong on the door list unless asked for
+    attendees: params.includeInvalid
+      ? attendees
+      : attendees.filter((attendee) => isAdmissible(attendee.paymentState)),
+  };
+};
+
+// Highest payment ID across the hosts' events, the starting cursor for the live purchase
+// feed. Taken across all events, not just today's, so that when the feed rolls over to
+// the next day's shows their earlier sales aren't replayed as new.
+export const getLatestPaymentId = async (params: { hostUserIds: number[] }): Promise<number> => {
+  const rows = await query<{ max_id: number | string | null }>(
+    `SELECT MAX(p.id) as max_id
+     FROM events e
+     INNER JOIN payments p ON p.event_id = e.id
+     WHERE e.user_id = ANY($1)`,
+    [params.hostUserIds]
+  );
+
+  return Number(rows[0]?.max_id || 0);
+};
+
+// Payments on the given events with an ID above the cursor, oldest first, with the
+// cursor to poll from next. Payment IDs only grow, so nothing is sent twice. Refunded
+// and failed payments move the cursor but aren't returned.
+export const listPaymentsAfter = async (params: {
+  eventIds: number[];
+  hostUserIds: number[];
+  afterPaymentId: number;
+  limit?: number;
+}): Promise<{ purchases: SeatLookupResult[]; cursor: number }> => {
+  if (params.eventIds.length === 0) {
+    return { purchases: [], cursor: params.afterPaymentId };
+  }
+
+  const matches = await query<{ id: number }>(
+    `SELECT p.id
+     FROM events e
+     INNER JOIN payments p ON p.event_id = e.id AND p.event_attendee_id IS NOT NULL AND p.id > $3
+     WHERE e.id = ANY($1) AND e.user_id = ANY($2)
+     ORDER BY p.id ASC
+     LIMIT $4`,
+    [params.eventIds, params.hostUserIds, params.afterPaymentId, params.limit || 100]
+  );
+
+  const paymentIds = matches.map((match) => Number(match.id));
+  const rows = await fetchSeatLookupRows(paymentIds, params.hostUserIds);
+
+  return {
+    purchases: rows
+      .map((row) => toSeatLookupResult(row, 1))
+      .filter((purchase) => isAdmissible(purchase.paymentState)),
+    cursor: paymentIds.length > 0 ? paymentIds[paymentIds.length - 1] : params.afterPaymentId,
+  };
+};
+
+// A payment's event, host and attendee_guests IDs, used to scope door actions like check-in
+export interface PaymentGuests {
+  paymentId: number;
+  eventId: number;
+  hostUserId: number;
+  guestIds: number[];
+}
+
+// Returns null when the payment doesn't exist or belongs to a host outside the scope
+export const getPaymentGuests = async (params: {
+  paymentId: number;
+  hostUserIds: number[];
+}): Promise<PaymentGuests | null> => {
+  const rows = await query<{
+    payment_id: number;
+    event_id: number;
+    host_user_id: number;
+    guest_ids: Array<number | string>;
+  }>(
+    `SELECT
+       p.id as payment_id,
+       p.event_id,
+       e.user_id as host_user_id,
+       COALESCE(array_agg(ag.id ORDER BY ag.id) FILTER (WHERE ag.id IS NOT NULL), '{}') as guest_ids
+     FROM events e
+     INNER JOIN payments p ON p.event_id = e.id AND p.id = $1
+     LEFT JOIN attendee_guests ag ON ag.payment_id = p.id AND ag.event_attendee_id = p.event_attendee_id
+     WHERE e.user_id = ANY($2)
+     GROUP BY p.id, p.event_id, e.user_id`,
+    [params.paymentId, params.hostUserIds]
+  );
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  return {
+    paymentId: Number(rows[0].payment_id),
+    eventId: Number(rows[0].event_id),
+    hostUserId: Number(rows[0].host_user_id),
+    guestIds: rows[0].guest_ids.map(Number),
+  };
+};
+
 // Cleanup function
 export const closeDb = async () => {
   if (pool) {
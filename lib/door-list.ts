@@ -0,0 +1,202 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import type { HostEvent, SeatLookupResult } from '@/lib/db';
+import { PAYMENT_STATE_LABELS } from '@/lib/payment-status';
+import { compareSeats } from '@/lib/seats';
+
+// Paper list for the door: one line per party, alphabetical by attendee
+export interface DoorListRow {
+  paymentId: number;
+  lastName: string;
+  firstName: string;
+  name: string;
+  partySize: number;
+  seats: string[];
+  // Set for payments that aren't simply paid, e.g. "Partially refunded"
+  note: string | null;
+}
+
+export const buildDoorList = (attendees: SeatLookupResult[]): DoorListRow[] => {
+  return attendees
+    .map((attendee) => {
+      const lastName = (attendee.payerLastName || '').trim();
+      const firstName = (attendee.payerFirstName || '').trim();
+
+      return {
+        paymentId: attendee.paymentId,
+        lastName,
+        firstName,
+        // Last name first so the list reads the way it's sorted
+        name: [lastName, firstName].filter(Boolean).join(', ') || 'Unknown attendee',
+        partySize: Math.max(attendee.guestCount, 1),
+        seats: [...attendee.seats].sort(compareSeats).map((seat) => seat.label),
+        note: attendee.paymentState === 'valid' ? null : PAYMENT_STATE_LABELS[attendee.paymentState],
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.lastName.localeCompare(b.lastName, 'en', { sensitivity: 'base' }) ||
+        a.firstName.localeCompare(b.firstName, 'en', { sensitivity: 'base' }) ||
+        a.paymentId - b.paymentId
+    );
+};
+
+// US Letter, in PDF points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const ROW_PADDING = 6;
+const BOX_SIZE = 10;
+
+const COLUMNS = {
+  checkbox: MARGIN,
+  name: MARGIN + 28,
+  party: MARGIN + 268,
+  seats: MARGIN + 318,
+};
+const NAME_WIDTH = COLUMNS.party - COLUMNS.name - 12;
+const SEATS_WIDTH = PAGE_WIDTH - MARGIN - COLUMNS.seats;
+
+// The standard PDF fonts only cover WinAnsi (Latin-1 plus curly quotes, dashes and bullets).
+// Other characters lose their accents if that makes them printable, or become '?'.
+const WIN_ANSI = /^[\x20-\x7e\xa0-\xff\u2013\u2014\u2018\u2019\u201c\u201d\u2022]*$/;
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text.normalize('NFC'))
+    .map((char) => {
+      if (WIN_ANSI.test(char)) return char;
+      const folded = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      return folded && WIN_ANSI.test(folded) ? folded : '?';
+    })
+    .join('');
+
+// Greedy word wrap; words longer than the column are cut by character
+const wrapText = (text: string, font: PDFFont, maxWidth: number): string[] => {
+  const fits = (value: string) => font.widthOfTextAtSize(value, FONT_SIZE) <= maxWidth;
+  const lines: string[] = [];
+  let line = '';
+
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (fits(candidate)) {
+      line = candidate;
+      return;
+    }
+    if (line) {
+      lines.push(line);
+    }
+    line = '';
+    for (const char of word) {
+      if (!fits(line + char)) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  });
+
+  if (line || lines.length === 0) {
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const renderDoorListPdf = async (event: HostEvent, rows: DoorListRow[]): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const title = toWinAnsi(event.name || `Event ${event.id}`);
+  const subtitle = toWinAnsi(`${event.startDate} at ${event.startTime} (${event.timezone})`);
+  const totalGuests = rows.reduce((total, row) => total + row.partySize, 0);
+  const summary = `${rows.length} parties, ${totalGuests} guests`;
+
+  const pages: PDFPage[] = [];
+  let page!: PDFPage;
+  let y = 0;
+
+  // Every page repeats the event header and column titles
+  const addPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN;
+
+    page.drawText(title, { x: MARGIN, y: y - 16, size: 16, font: bold });
+    y -= 34;
+    page.drawText(subtitle, { x: MARGIN, y, size: FONT_SIZE, font });
+    page.drawText(summary, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(summary, FONT_SIZE),
+      y,
+      size: FONT_SIZE,
+      font,
+    });
+    y -= 24;
+
+    page.drawText('In', { x: COLUMNS.checkbox, y, size: FONT_SIZE, font: bold });
+    page.drawText('Name', { x: COLUMNS.name, y, size: FONT_SIZE, font: bold });
+    page.drawText('Party', { x: COLUMNS.party, y, size: FONT_SIZE, font: bold });
+    page.drawText('Seats', { x: COLUMNS.seats, y, size: FONT_SIZE, font: bold });
+    y -= ROW_PADDING;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 1,
+    });
+  };
+
+  addPage();
+
+  if (rows.length === 0) {
+    page.drawText('No attendees for this event.', { x: MARGIN, y: y - 20, size: FONT_SIZE, font });
+  }
+
+  rows.forEach((row) => {
+    const nameLines = wrapText(toWinAnsi(row.note ? `${row.name} (${row.note})` : row.name), font, NAME_WIDTH);
+    const seatLines = wrapText(toWinAnsi(row.seats.join(', ') || '-'), font, SEATS_WIDTH);
+    const rowHeight = Math.max(nameLines.length, seatLines.length) * LINE_HEIGHT + ROW_PADDING * 2;
+
+    if (y - rowHeight < MARGIN + LINE_HEIGHT) {
+      addPage();
+    }
+
+    const top = y - ROW_PADDING - FONT_SIZE;
+
+    page.drawRectangle({
+      x: COLUMNS.checkbox,
+      y: top - 1,
+      width: BOX_SIZE,
+      height: BOX_SIZE,
+      borderColor: rgb(0, 0, 0),
+      borderWidth: 1,
+    });
+    nameLines.forEach((line, i) => {
+      page.drawText(line, { x: COLUMNS.name, y: top - i * LINE_HEIGHT, size: FONT_SIZE, font });
+    });
+    page.drawText(String(row.partySize), { x: COLUMNS.party, y: top, size: FONT_SIZE, font });
+    seatLines.forEach((line, i) => {
+      page.drawText(line, { x: COLUMNS.seats, y: top - i * LINE_HEIGHT, size: FONT_SIZE, font });
+    });
+
+    y -= rowHeight;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.75, 0.75, 0.75),
+    });
+  });
+
+  // Page numbers go in last, once the page count is known
+  pages.forEach((current, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    current.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+    });
+  });
+
+  return pdf.save();
+};
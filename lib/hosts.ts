@@ -0,0 +1,144 @@
+import { auth } from '@clerk/nextjs/server';
+import registry from '@/config/hosts.json';
+import { parseRecordId } from '@/lib/search-query';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '@/lib/timezone';
+
+// A host is an `events.user_id` whose events staff can search.
+// `timezone` is the IANA zone event times are shown in.
+export interface HostConfig {
+  id: number;
+  name: string;
+  timezone?: string;
+}
+
+// What staff may do for a host, weakest first. Viewers can read staff notes, staff can
+// also add and edit them, managers can also mark guests "do not admit" and delete notes.
+export type StaffRole = 'viewer' | 'staff' | 'manager';
+
+const STAFF_ROLES: StaffRole[] = ['viewer', 'staff', 'manager'];
+
+// Grants map a signed-in Clerk user or organization to the hosts they may see.
+// `allSignedIn` grants apply to every signed-in user. `role` defaults to staff.
+interface HostGrant {
+  userId?: string;
+  orgId?: string;
+  allSignedIn?: boolean;
+  role?: StaffRole;
+  hostIds: number[];
+}
+
+interface HostRegistry {
+  hosts: HostConfig[];
+  grants: HostGrant[];
+}
+
+const hostRegistry = registry as HostRegistry;
+
+export const getHostById = (hostId: number): HostConfig | undefined => {
+  return hostRegistry.hosts.find((host) => host.id === hostId);
+};
+
+export const getHostTimezone = (hostId: number): string => {
+  const timezone = getHostById(hostId)?.timezone;
+
+  if (timezone && !isValidTimeZone(timezone)) {
+    console.warn(`Invalid timezone "${timezone}" for host ${hostId}, using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
+
+  return timezone || DEFAULT_TIMEZONE;
+};
+
+export const hasStaffRole = (role: StaffRole | null | undefined, required: StaffRole): boolean =>
+  !!role && STAFF_ROLES.indexOf(role) >= STAFF_ROLES.indexOf(required);
+
+// The strongest role the identity's grants give for each host it may see
+const getHostRolesForIdentity = (identity: {
+  userId: string | null;
+  orgId?: string | null;
+}): Map<number, StaffRole> => {
+  const roles = new Map<number, StaffRole>();
+  if (!identity.userId) {
+    return roles;
+  }
+
+  for (const grant of hostRegistry.grants) {
+    const matches =
+      grant.allSignedIn ||
+      (grant.userId && grant.userId === identity.userId) ||
+      (grant.orgId && grant.orgId === identity.orgId);
+
+    if (matches) {
+      const role = grant.role && STAFF_ROLES.includes(grant.role) ? grant.role : 'staff';
+      grant.hostIds.forEach((hostId) => {
+        if (!hasStaffRole(roles.get(hostId), role)) {
+          roles.set(hostId, role);
+        }
+      });
+    }
+  }
+
+  return roles;
+};
+
+// Resolve every host the given identity has been granted, in registry order
+export const getHostsForIdentity = (identity: {
+  userId: string | null;
+  orgId?: string | null;
+}): HostConfig[] => {
+  const roles = getHostRolesForIdentity(identity);
+  return hostRegistry.hosts.filter((host) => roles.has(host.id));
+};
+
+export type HostScope =
+  | {
+      ok: true;
+      userId: string;
+      hosts: HostConfig[];
+      hostUserIds: number[];
+      // Keyed by host ID, for every host in `hosts`
+      roles: Record<number, StaffRole>;
+    }
+  | { ok: false; status: 400 | 401 | 403; error: string };
+
+// Work out which hosts a request may search. With no requested host the scope
+// covers every host the caller is allowed to see; a requested host the caller
+// hasn't been granted is rejected rather than silently dropped.
+export const resolveHostScope = async (requestedHostId?: unknown): Promise<HostScope> => {
+  const { userId, orgId } = await auth();
+
+  if (!userId) {
+    return { ok: false, status: 401, error: 'Sign in to search for seats' };
+  }
+
+  const roles = getHostRolesForIdentity({ userId, orgId });
+  const allowedHosts = hostRegistry.hosts.filter((host) => roles.has(host.id));
+
+  if (allowedHosts.length === 0) {
+    return { ok: false, status: 403, error: 'No hosts are configured for your account' };
+  }
+
+  if (requestedHostId === undefined || requestedHostId === null || requestedHostId === '') {
+    return {
+      ok: true,
+      userId,
+      hosts: allowedHosts,
+      hostUserIds: allowedHosts.map((host) => host.id),
+      roles: Object.fromEntries(allowedHosts.map((host) => [host.id, roles.get(host.id)!])),
+    };
+  }
+
+  // Whole digits only: parseInt would read "9987142abc" as a granted host
+  const hostId = parseRecordId(requestedHostId);
+  if (hostId === null) {
+    return { ok: false, status: 400, error: `Invalid host ID: ${requestedHostId}` };
+  }
+
+  const host = allowedHosts.find((allowed) => allowed.id === hostId);
+
+  if (!host) {
+    return { ok: false, status: 403, error: `You do not have access to host ${requestedHostId}` };
+  }
+
+  return { ok: true, userId, hosts: [host], hostUserIds: [host.id], roles: { [host.id]: roles.get(host.id)! } };
+};
@@ -0,0 +1,142 @@
+import type { CheckIn } from '@/lib/check-ins';
+import type { HostEvent, SeatLookupResult } from '@/lib/db';
+
+// Browser-side IndexedDB cache for the offline kiosk: today's rosters per host scope,
+// and check-ins made while offline waiting to be sent to /api/check-ins.
+
+export interface KioskRoster {
+  event: HostEvent;
+  attendees: SeatLookupResult[];
+}
+
+export interface KioskSnapshot {
+  // Host the snapshot was loaded for; '' means all hosts the user can see
+  scope: string;
+  fetchedAt: string;
+  rosters: KioskRoster[];
+}
+
+export interface QueuedCheckIn {
+  id?: number;
+  method: 'POST' | 'DELETE';
+  paymentId: number;
+  hostUserId: number;
+  // When the check-in was made at the door, sent along so arrival times stay accurate
+  queuedAt: string;
+}
+
+const DB_NAME = 'seat-lookup-kiosk';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const QUEUE = 'check-in-queue';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) {
+          db.createObjectStore(SNAPSHOTS, { keyPath: 'scope' });
+        }
+        if (!db.objectStoreNames.contains(QUEUE)) {
+          db.createObjectStore(QUEUE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const run = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const loadSnapshot = async (scope: string): Promise<KioskSnapshot | null> => {
+  const snapshot = await run<KioskSnapshot | undefined>(SNAPSHOTS, 'readonly', (store) => store.get(scope));
+  return snapshot || null;
+};
+
+export const saveSnapshot = async (snapshot: KioskSnapshot): Promise<void> => {
+  await run(SNAPSHOTS, 'readwrite', (store) => store.put(snapshot));
+};
+
+// Record a party's check-ins in the cached snapshot so they survive a reload
+export const updateSnapshotCheckIns = async (
+  scope: string,
+  paymentId: number,
+  checkIns: CheckIn[]
+): Promise<KioskSnapshot | null> => {
+  const snapshot = await loadSnapshot(scope);
+  if (!snapshot) {
+    return null;
+  }
+
+  const updated: KioskSnapshot = {
+    ...snapshot,
+    rosters: snapshot.rosters.map((roster) => ({
+      ...roster,
+      attendees: roster.attendees.map((attendee) =>
+        attendee.paymentId === paymentId ? { ...attendee, checkIns } : attendee
+      ),
+    })),
+  };
+  await saveSnapshot(updated);
+  return updated;
+};
+
+// Add a purchase pushed by the live feed to its event's cached roster, if the
+// snapshot has that event and doesn't have the payment yet
+export const addSnapshotAttendee = async (
+  scope: string,
+  attendee: SeatLookupResult
+): Promise<KioskSnapshot | null> => {
+  const snapshot = await loadSnapshot(scope);
+  const roster = snapshot?.rosters.find((candidate) => candidate.event.id === attendee.eventId);
+  if (!snapshot || !roster || roster.attendees.some((existing) => existing.paymentId === attendee.paymentId)) {
+    return null;
+  }
+
+  const updated: KioskSnapshot = {
+    ...snapshot,
+    rosters: snapshot.rosters.map((candidate) =>
+      candidate === roster ? { ...candidate, attendees: [...candidate.attendees, attendee] } : candidate
+    ),
+  };
+  await saveSnapshot(updated);
+  return updated;
+};
+
+export const enqueueCheckIn = async (entry: Omit<QueuedCheckIn, 'id'>): Promise<void> => {
+  await run(QUEUE, 'readwrite', (store) => store.add(entry));
+};
+
+// Oldest first, the order they have to be replayed in
+export const listQueuedCheckIns = async (): Promise<QueuedCheckIn[]> => {
+  return run<QueuedCheckIn[]>(QUEUE, 'readonly', (store) => store.getAll());
+};
+
+export const removeQueuedCheckIn = async (id: number): Promise<void> => {
+  await run(QUEUE, 'readwrite', (store) => store.delete(id));
+};
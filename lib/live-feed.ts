@@ -0,0 +1,37 @@
+// Server-sent events feed of new purchases on today's shows. The API polls the
+// warehouse and pushes each new payment; the dashboard and kiosk merge them in.
+
+export const LIVE_PURCHASE_EVENT = 'purchase';
+// Sent after every poll, carrying the cursor as the SSE id so a reconnecting
+// EventSource resumes from where it left off
+export const LIVE_PING_EVENT = 'ping';
+export const LIVE_ERROR_EVENT = 'feed-error';
+
+export interface LiveFeedConfig {
+  pollIntervalMs: number;
+  // Upper bound for the back-off after consecutive failed polls
+  maxBackoffMs: number;
+}
+
+const readMs = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '');
+  return value > 0 ? value : fallback;
+};
+
+export const getLiveFeedConfig = (): LiveFeedConfig => ({
+  pollIntervalMs: readMs('LIVE_FEED_POLL_MS', 15000),
+  maxBackoffMs: readMs('LIVE_FEED_MAX_BACKOFF_MS', 120000),
+});
+
+// Doubles the interval for each failed poll in a row, up to the cap
+export const getPollDelay = (config: LiveFeedConfig, failures: number): number =>
+  Math.min(config.pollIntervalMs * 2 ** failures, Math.max(config.maxBackoffMs, config.pollIntervalMs));
+
+export const formatSseEvent = (params: { event: string; data: unknown; id?: string | number }): string => {
+  const lines = [`event: ${params.event}`];
+  if (params.id !== undefined) {
+    lines.push(`id: ${params.id}`);
+  }
+  lines.push(`data: ${JSON.stringify(params.data)}`);
+  return `${lines.join('\n')}\n\n`;
+};
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Local persistence for data the read-only warehouse can't hold (check-ins, notes, ...).
+// Each store is one JSON file in LOCAL_DATA_DIR (default ./.data). Writes go to a
+// temp file and are renamed into place, so a crash never leaves half a file behind.
+
+const getDataDir = () => process.env.LOCAL_DATA_DIR || path.join(process.cwd(), '.data');
+
+const getStorePath = (name: string) => path.join(getDataDir(), `${name}.json`);
+
+// Updates to the same store are chained so concurrent requests in this process
+// can't overwrite each other's changes
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export const readStore = async <T>(name: string, fallback: T): Promise<T> => {
+  try {
+    const contents = await fs.readFile(getStorePath(name), 'utf8');
+    return JSON.parse(contents) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    console.error(`Failed to read local store "${name}":`, error);
+    throw error;
+  }
+};
+
+const writeStore = async <T>(name: string, data: T): Promise<void> => {
+  const storePath = getStorePath(name);
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(getDataDir(), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tempPath, storePath);
+};
+
+// Read a store, let `update` change it in place, then write it back.
+// Returns whatever `update` returns.
+export const updateStore = async <T, R>(
+  name: string,
+  fallback: T,
+  update: (data: T) => R | Promise<R>
+): Promise<R> => {
+  const previous = writeQueues.get(name) || Promise.resolve();
+
+  const next = previous.catch(() => undefined).then(async () => {
+    const data = await readStore(name, fallback);
+    const result = await update(data);
+    await writeStore(name, data);
+    return result;
+  });
+
+  writeQueues.set(name, next);
+  return next;
+};
+
+// Remove a store's file; a store that was never written is already gone
+export const deleteStore = async (name: string): Promise<void> => {
+  try {
+    await fs.unlink(getStorePath(name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,162 @@
+// Typo-tolerant, phonetic name matching for the seat lookup.
+// The server uses it to rank database candidates and anything that searches
+// rosters in the browser can use it to apply the same rules.
+
+// Results scoring below this are dropped as unrelated
+export const MIN_MATCH_SCORE = 0.5;
+
+// Soundex codes for A-Z, identical to PostgreSQL's fuzzystrmatch table so
+// codes computed here can be compared with soundex() in SQL
+const SOUNDEX_TABLE = '01230120022455012623010202';
+const SOUNDEX_LENGTH = 4;
+
+const isAlpha = (char: string) => /^[a-z]$/i.test(char);
+
+const soundexCode = (char: string): string => {
+  const upper = char.toUpperCase();
+  return upper >= 'A' && upper <= 'Z' ? SOUNDEX_TABLE[upper.charCodeAt(0) - 65] : upper;
+};
+
+// Port of fuzzystrmatch's soundex(): H and W don't separate duplicate codes,
+// and leading non-letters are skipped
+export const soundex = (value: string): string => {
+  let index = 0;
+  while (index < value.length && !isAlpha(value[index])) {
+    index++;
+  }
+
+  if (index >= value.length) {
+    return '';
+  }
+
+  let code = value[index].toUpperCase();
+  index++;
+
+  while (index < value.length && code.length < SOUNDEX_LENGTH) {
+    const char = value[index];
+    if (isAlpha(char) && soundexCode(char) !== soundexCode(value[index - 1])) {
+      const digit = soundexCode(char);
+      if (digit !== '0') {
+        code += digit;
+      }
+    }
+    index++;
+  }
+
+  return code.padEnd(SOUNDEX_LENGTH, '0');
+};
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Lowercase, strip accents and punctuation, collapse whitespace
+export const normalizeName = (value: string | null | undefined): string => {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const tokenizeName = (value: string): string[] => {
+  const normalized = normalizeName(value);
+  return normalized ? normalized.split(' ') : [];
+};
+
+// Soundex codes of the first and last query tokens, used to pre-filter
+// candidates in SQL before they are scored here
+export const getPhoneticKeys = (searchQuery: string): { first: string; last: string } => {
+  const tokens = tokenizeName(searchQuery);
+  return {
+    first: tokens.length > 0 ? soundex(tokens[0]) : '',
+    last: tokens.length > 0 ? soundex(tokens[tokens.length - 1]) : '',
+  };
+};
+
+const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+// How well one query token matches one name part, from 0 to 1
+const scoreToken = (token: string, namePart: string): number => {
+  if (!token || !namePart) return 0;
+  if (token === namePart) return 1;
+  if (namePart.startsWith(token)) return 0.85;
+  if (namePart.includes(token)) return 0.7;
+
+  const sim = similarity(token, namePart);
+  if (soundex(token) === soundex(namePart)) {
+    // Same sound but very different spelling ("Jon" vs "Jane") is likely unrelated
+    return sim >= 0.6 ? 0.55 + 0.35 * sim : 0.3;
+  }
+
+  return sim >= 0.7 ? 0.8 * sim : 0;
+};
+
+// Whether the query's tokens appear, in order and next to each other, among the name's
+// tokens ("de la cruz" in "maria de la cruz")
+const containsTokens = (nameTokens: string[], queryTokens: string[]): boolean =>
+  nameTokens.some((_, start) => queryTokens.every((token, i) => nameTokens[start + i] === token));
+
+// Relevance of an attendee to a name query, from 0 to 1.
+// Only an exact full-name match scores 1, so it always ranks first.
+// Fuzzy scoring only compares the query's first and last tokens with the first and last
+// name, which would undersell names that normalize to several tokens (O'Brien,
+// Smith-Jones, De La Cruz, Mary Ann), so a query typed as the name is stored is scored
+// separately: matching a whole name part scores 0.9, a run of tokens inside the full name
+// 0.8, and any other substring of the full name at least MIN_MATCH_SCORE.
+export const scoreNameMatch = (
+  searchQuery: string,
+  firstName: string | null | undefined,
+  lastName: string | null | undefined
+): number => {
+  const queryTokens = tokenizeName(searchQuery);
+  const first = normalizeName(firstName);
+  const last = normalizeName(lastName);
+  const full = [first, last].filter(Boolean).join(' ');
+  const query = queryTokens.join(' ');
+
+  if (queryTokens.length === 0 || !full) return 0;
+  if (query === full) return 1;
+
+  const phrase = query === first || query === last
+    ? 0.9
+    : containsTokens(full.split(' '), queryTokens)
+      ? 0.8
+      : full.includes(query)
+        ? MIN_MATCH_SCORE
+        : 0;
+
+  if (queryTokens.length === 1) {
+    const [token] = queryTokens;
+    return Math.max(phrase, 0.8 * Math.max(scoreToken(token, first), scoreToken(token, last)));
+  }
+
+  const queryFirst = queryTokens[0];
+  const queryLast = queryTokens[queryTokens.length - 1];
+
+  const inOrder = (scoreToken(queryFirst, first) + scoreToken(queryLast, last)) / 2;
+  // "Smith John" is still a reasonable search, just less likely than first-last
+  const swapped = (scoreToken(queryFirst, last) + scoreToken(queryLast, first)) / 2 * 0.9;
+
+  return Math.max(phrase, 0.95 * Math.max(inOrder, swapped));
+};
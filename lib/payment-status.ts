@@ -0,0 +1,42 @@
+// Whether a payment still admits its guests, from payments.status and refund_amount.
+// Shared by the API (to hide invalid tickets) and the dashboard (to flag them).
+
+export type PaymentState = 'valid' | 'partially_refunded' | 'refunded' | 'failed';
+
+// payments.status values for charges that never went through
+export const FAILED_STATUSES = ['failed', 'error', 'declined', 'voided', 'canceled', 'cancelled'];
+export const REFUNDED_STATUSES = ['refunded'];
+
+export const getPaymentState = (
+  status: string | null,
+  amount: number,
+  refundAmount: number
+): PaymentState => {
+  const normalized = (status || '').trim().toLowerCase();
+
+  if (FAILED_STATUSES.includes(normalized)) {
+    return 'failed';
+  }
+  if (REFUNDED_STATUSES.includes(normalized) || (refundAmount > 0 && refundAmount >= amount)) {
+    return 'refunded';
+  }
+  if (refundAmount > 0) {
+    return 'partially_refunded';
+  }
+  return 'valid';
+};
+
+// Fully refunded and failed payments are left out of lookups and rosters unless asked for;
+// a partial refund may still cover some of the party, so those are kept and flagged
+export const isAdmissible = (state: PaymentState): boolean => state === 'valid' || state === 'partially_refunded';
+
+export const PAYMENT_STATE_LABELS: Record<PaymentState, string> = {
+  valid: 'Paid',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded',
+  failed: 'Payment failed',
+};
+
+// payments.amount is a DECIMAL in dollars
+export const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
@@ -0,0 +1,350 @@
+// Payrix (Worldpay) API client for transaction lookups. Requests run through a bounded
+// concurrency pool, each with its own timeout; 429 and 5xx responses, timeouts and
+// network errors are retried with exponential back-off (honouring Retry-After).
+// PAYRIX_ENV picks the environment (test, prod or mock, for scripts/mock-payrix.js).
+
+export type PayrixEnvironment = 'test' | 'prod' | 'mock';
+
+export const PAYRIX_ENVIRONMENTS: PayrixEnvironment[] = ['test', 'prod', 'mock'];
+
+export const PAYRIX_ENVIRONMENT_LABELS: Record<PayrixEnvironment, string> = {
+  test: 'Payrix test',
+  prod: 'Payrix production',
+  mock: 'Payrix mock',
+};
+
+interface PayrixEnvironmentProfile {
+  baseUrl: string;
+  // Environment variable holding this environment's API key
+  apiKeyVariable: string;
+}
+
+const PAYRIX_PROFILES: Record<PayrixEnvironment, PayrixEnvironmentProfile> = {
+  test: { baseUrl: 'https://test-api.payrix.com', apiKeyVariable: 'PAYRIX_TEST_API_KEY' },
+  prod: { baseUrl: 'https://api.payrix.com', apiKeyVariable: 'PAYRIX_PROD_API_KEY' },
+  mock: { baseUrl: 'http://localhost:4010', apiKeyVariable: 'PAYRIX_MOCK_API_KEY' },
+};
+
+// The parts of a Payrix transaction (GET /txns/:id) this app reads; Payrix sends many more.
+// Amounts are in cents.
+export interface PayrixTransaction {
+  id: string;
+  created?: string;
+  modified?: string;
+  merchant?: string;
+  type?: number;
+  status?: number;
+  total?: number;
+  approved?: number;
+  refunded?: number;
+  currency?: string;
+  first?: string | null;
+  middle?: string | null;
+  last?: string | null;
+  company?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  country?: string | null;
+  // Address verification (AVS) and card security code (CVV) result codes from the issuer
+  avsResponse?: string | null;
+  cvvResponse?: string | null;
+}
+
+// Where the card is billed and how the issuer checked it, from a Payrix transaction.
+// Fields Payrix left blank are null.
+export interface BillingDetails {
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  country: string | null;
+  avsResult: string | null;
+  cvvResult: string | null;
+}
+
+export interface PayrixError {
+  msg: string;
+  field?: string;
+  code?: number;
+  severity?: number;
+  errorCode?: string;
+}
+
+// Every Payrix response wraps its records in `response.data`; failures may still come
+// back as HTTP 200 with entries in `response.errors`
+export interface PayrixResponse<T> {
+  response: {
+    data: T[];
+    details?: {
+      requestId?: number;
+      totals?: Record<string, number>;
+      page?: { current: number; last: number; hasMore: boolean };
+    };
+    errors: PayrixError[];
+  };
+}
+
+export interface PayrixClientConfig {
+  environment: PayrixEnvironment;
+  baseUrl: string;
+  apiKey: string;
+  // Requests in flight at once
+  concurrency: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  timeoutMs: number;
+  // First back-off delay; doubles on each retry, with jitter, up to maxRetryDelayMs
+  retryBaseMs: number;
+  maxRetryDelayMs: number;
+}
+
+export type PayrixTransactionResult =
+  | {
+      transactionId: string;
+      ok: true;
+      // null when Payrix has no such transaction
+      transaction: PayrixTransaction | null;
+      // null when Payrix has no such transaction
+      billing: BillingDetails | null;
+      // null when the transaction has no billing ZIP
+      zipCode: string | null;
+      attempts: number;
+      response: PayrixResponse<PayrixTransaction>;
+    }
+  | {
+      transactionId: string;
+      ok: false;
+      // HTTP status of the last attempt; null for timeouts and network errors
+      status: number | null;
+      error: string;
+      attempts: number;
+    };
+
+// What the dashboard shows about the active environment; never includes the key
+export interface PayrixEnvironmentInfo {
+  environment: PayrixEnvironment;
+  label: string;
+  baseUrl: string;
+  hasApiKey: boolean;
+}
+
+const readPositiveInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '');
+  return value > 0 ? value : fallback;
+};
+
+const readNonNegativeInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '');
+  return value >= 0 ? value : fallback;
+};
+
+export const getPayrixEnvironment = (): PayrixEnvironment => {
+  const environment = (process.env.PAYRIX_ENV || 'test').trim().toLowerCase();
+
+  if (!PAYRIX_ENVIRONMENTS.includes(environment as PayrixEnvironment)) {
+    console.warn(`Invalid PAYRIX_ENV "${process.env.PAYRIX_ENV}", using test`);
+    return 'test';
+  }
+
+  return environment as PayrixEnvironment;
+};
+
+// PAYRIX_API_URL points the mock at another port. Test and prod always use their own
+// payrix.com host, so a real key can't be sent elsewhere by a stray override.
+const getPayrixBaseUrl = (environment: PayrixEnvironment): string => {
+  const override = process.env.PAYRIX_API_URL;
+  if (override && environment !== 'mock') {
+    console.warn(`PAYRIX_API_URL only applies to PAYRIX_ENV=mock; ignoring it for ${environment}`);
+  }
+  const baseUrl = override && environment === 'mock' ? override : PAYRIX_PROFILES[environment].baseUrl;
+  return baseUrl.replace(/\/+$/, '');
+};
+
+// The environment's own key. The older WORLDPAY_API_KEY was a test key, so only test falls
+// back to it; prod needs PAYRIX_PROD_API_KEY. The mock accepts any key and never receives a
+// real one, so nothing secret is sent to a local server.
+const getPayrixApiKey = (environment: PayrixEnvironment): string | null => {
+  const key = process.env[PAYRIX_PROFILES[environment].apiKeyVariable];
+  if (key) {
+    return key;
+  }
+  if (environment === 'mock') {
+    return 'mock';
+  }
+  return environment === 'test' ? process.env.WORLDPAY_API_KEY || null : null;
+};
+
+export const getPayrixEnvironmentInfo = (): PayrixEnvironmentInfo => {
+  const environment = getPayrixEnvironment();
+
+  return {
+    environment,
+    label: PAYRIX_ENVIRONMENT_LABELS[environment],
+    baseUrl: getPayrixBaseUrl(environment),
+    hasApiKey: !!getPayrixApiKey(environment),
+  };
+};
+
+// Null when the active environment has no API key
+export const getPayrixConfig = (): PayrixClientConfig | null => {
+  const environment = getPayrixEnvironment();
+  const apiKey = getPayrixApiKey(environment);
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    environment,
+    baseUrl: getPayrixBaseUrl(environment),
+    apiKey,
+    concurrency: readPositiveInt('PAYRIX_CONCURRENCY', 5),
+    maxRetries: readNonNegativeInt('PAYRIX_MAX_RETRIES', 3),
+    timeoutMs: readPositiveInt('PAYRIX_TIMEOUT_MS', 10000),
+    retryBaseMs: readPositiveInt('PAYRIX_RETRY_BASE_MS', 250),
+    maxRetryDelayMs: readPositiveInt('PAYRIX_MAX_RETRY_DELAY_MS', 8000),
+  };
+};
+
+// Payrix transaction IDs look like t1_txn_...
+export const isPayrixTransactionId = (transactionId: string | null): transactionId is string =>
+  !!transactionId && transactionId.startsWith('t1_txn_');
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = new Date(value).getTime();
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+};
+
+const getRetryDelay = (config: PayrixClientConfig, retry: number, retryAfterMs: number | null): number => {
+  const backoff = config.retryBaseMs * 2 ** retry;
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.min(Math.max(retryAfterMs ?? 0, jittered), config.maxRetryDelayMs);
+};
+
+const readText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const extractBillingDetails = (transaction: PayrixTransaction | null): BillingDetails | null =>
+  transaction && {
+    address1: readText(transaction.address1),
+    address2: readText(transaction.address2),
+    city: readText(transaction.city),
+    state: readText(transaction.state),
+    zip: readText(transaction.zip),
+    country: readText(transaction.country),
+    avsResult: readText(transaction.avsResponse),
+    cvvResult: readText(transaction.cvvResponse),
+  };
+
+export const fetchPayrixTransaction = async (
+  config: PayrixClientConfig,
+  transactionId: string
+): Promise<PayrixTransactionResult> => {
+  let attempts = 0;
+
+  for (;;) {
+    attempts += 1;
+    let status: number | null = null;
+    let error: string;
+    let retryAfterMs: number | null = null;
+
+    try {
+      const response = await fetch(`${config.baseUrl}/txns/${encodeURIComponent(transactionId)}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          APIKEY: config.apiKey,
+        },
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+
+      if (response.ok) {
+        const body = (await response.json()) as PayrixResponse<PayrixTransaction>;
+        const errors = body?.response?.errors || [];
+
+        if (errors.length > 0) {
+          return { transactionId, ok: false, status: response.status, error: errors.map((e) => e.msg).join('; '), attempts };
+        }
+
+        const transaction = body?.response?.data?.[0] || null;
+        const billing = extractBillingDetails(transaction);
+        return { transactionId, ok: true, transaction, billing, zipCode: billing?.zip || null, attempts, response: body };
+      }
+
+      status = response.status;
+      error = `HTTP ${response.status}: ${response.statusText}`;
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+      if (!isRetryableStatus(response.status)) {
+        return { transactionId, ok: false, status, error, attempts };
+      }
+    } catch (err) {
+      error =
+        err instanceof Error && err.name === 'TimeoutError'
+          ? `Timed out after ${config.timeoutMs} ms`
+          : err instanceof Error
+            ? err.message
+            : 'Unknown error';
+    }
+
+    if (attempts > config.maxRetries) {
+      return { transactionId, ok: false, status, error, attempts };
+    }
+
+    await sleep(getRetryDelay(config, attempts - 1, retryAfterMs));
+  }
+};
+
+// Run `task` over every item with at most `limit` in flight, keeping input order
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Look up many transactions, one result per ID in the order given. Duplicate IDs are
+// fetched once.
+export const fetchPayrixTransactions = async (
+  config: PayrixClientConfig,
+  transactionIds: string[]
+): Promise<PayrixTransactionResult[]> => {
+  const uniqueIds = Array.from(new Set(transactionIds));
+  const fetched = await mapWithConcurrency(uniqueIds, config.concurrency, (transactionId) =>
+    fetchPayrixTransaction(config, transactionId)
+  );
+
+  const byId = new Map(fetched.map((result) => [result.transactionId, result]));
+  return transactionIds.map((transactionId) => byId.get(transactionId)!);
+};
@@ -0,0 +1,70 @@
+// Detect what kind of identifier a door-staff search looks like.
+// Shared by the seat lookup API and the dashboard so both agree on the strategy.
+
+export type SearchType = 'name' | 'email' | 'phone';
+
+// Phone numbers are typed with all sorts of punctuation: (212) 555-0100, +1 212.555.0100
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+const MIN_PHONE_DIGITS = 7;
+
+export const normalizePhone = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  // Drop the US country code so "+1 212 555 0100" matches a stored "2125550100"
+  return digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+};
+
+export const detectSearchType = (searchQuery: string): SearchType => {
+  const trimmed = searchQuery.trim();
+
+  if (trimmed.includes('@')) {
+    return 'email';
+  }
+
+  if (PHONE_PATTERN.test(trimmed) && normalizePhone(trimmed).length >= MIN_PHONE_DIGITS) {
+    return 'phone';
+  }
+
+  return 'name';
+};
+
+// Payment identifiers read from a confirmation barcode/QR or typed at the door:
+// a numeric payments.id or a processor transaction ID (p1_txn_… / t1_txn_…)
+export type PaymentIdentifier =
+  | { type: 'paymentId'; paymentId: number }
+  | { type: 'transactionId'; transactionId: string };
+
+const TRANSACTION_ID_PATTERN = /\b[pt]1_txn_[0-9a-z]+\b/i;
+const PAYMENT_ID_PATTERN = /^#?(\d{1,12})$/;
+// Warehouse IDs (payments.id, events.id) are int4; larger IDs can never exist, and Postgres
+// rejects them instead of finding nothing
+export const MAX_RECORD_ID = 2147483647;
+
+// QR codes often wrap the ID in a URL or text, so a transaction ID is found anywhere
+// in the value; a payment ID must be the whole value to avoid matching stray numbers
+export const parsePaymentIdentifier = (value: string): PaymentIdentifier | null => {
+  const trimmed = value.trim();
+
+  const transactionId = trimmed.match(TRANSACTION_ID_PATTERN);
+  if (transactionId) {
+    return { type: 'transactionId', transactionId: transactionId[0] };
+  }
+
+  const paymentId = trimmed.match(PAYMENT_ID_PATTERN);
+  if (paymentId) {
+    return { type: 'paymentId', paymentId: parseInt(paymentId[1]) };
+  }
+
+  return null;
+};
+
+// A warehouse ID from a route segment or request body: digits only (parseInt would read
+// "12abc" as 12) and within the int4 range. Null when it isn't one.
+export const parseRecordId = (value: unknown): number | null => {
+  const text = typeof value === 'number' ? String(value) : value;
+  if (typeof text !== 'string' || !/^\d+$/.test(text)) {
+    return null;
+  }
+
+  const id = Number(text);
+  return id <= MAX_RECORD_ID ? id : null;
+};
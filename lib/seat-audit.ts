@@ -0,0 +1,129 @@
+import type { HostEvent, SeatLookupResult } from '@/lib/db';
+import { isAdmissible, PaymentState } from '@/lib/payment-status';
+import { compareSeats, getSeatKey, isSeatParsed, Seat } from '@/lib/seats';
+
+// Seat audit for one event's roster: seats sold twice, parties short of seats, seats
+// without a seat number, and seats still held by refunded or failed payments. Works on
+// the roster including invalid payments, so it can run the same way for one event or a
+// date range.
+
+export interface SeatHolder {
+  paymentId: number;
+  payerName: string | null;
+  guestId: number | null;
+}
+
+// One chair assigned to more than one guest on valid payments
+export interface SeatConflict {
+  seat: Seat;
+  holders: SeatHolder[];
+}
+
+// A valid payment with more guests than assigned seats
+export interface MissingSeats {
+  paymentId: number;
+  payerName: string | null;
+  guestCount: number;
+  seatCount: number;
+}
+
+// Seats without a seat number on a valid payment: table-only tickets and the like, and
+// seats nothing could be parsed from (`parsed: false`), which are only checked for
+// duplicates by their raw text
+export interface UnnumberedSeats {
+  paymentId: number;
+  payerName: string | null;
+  seats: { seat: Seat; parsed: boolean }[];
+}
+
+// Seats on a refunded or failed payment. A `reassigned` seat is already held by a
+// valid payment; the rest could be resold.
+export interface ReleasableSeats {
+  paymentId: number;
+  payerName: string | null;
+  paymentState: PaymentState;
+  seats: { seat: Seat; reassigned: boolean }[];
+}
+
+export interface SeatAuditReport {
+  event: HostEvent;
+  // Seats on valid payments
+  seatCount: number;
+  conflicts: SeatConflict[];
+  missingSeats: MissingSeats[];
+  unnumbered: UnnumberedSeats[];
+  releasable: ReleasableSeats[];
+}
+
+export const auditEventSeats = (event: HostEvent, attendees: SeatLookupResult[]): SeatAuditReport => {
+  const valid = attendees.filter((attendee) => isAdmissible(attendee.paymentState));
+  const invalid = attendees.filter((attendee) => !isAdmissible(attendee.paymentState));
+
+  const held = new Map<string, SeatConflict>();
+  valid.forEach((attendee) => {
+    attendee.seats.forEach((seat) => {
+      const key = getSeatKey(seat);
+      if (key === null) return;
+
+      const holder = { paymentId: attendee.paymentId, payerName: attendee.payerName, guestId: seat.guestId };
+      const existing = held.get(key);
+      if (existing) {
+        existing.holders.push(holder);
+      } else {
+        held.set(key, { seat, holders: [holder] });
+      }
+    });
+  });
+
+  const conflicts = Array.from(held.values())
+    .filter((entry) => entry.holders.length > 1)
+    .sort((a, b) => compareSeats(a.seat, b.seat));
+
+  const missingSeats = valid
+    .filter((attendee) => attendee.seats.length < attendee.guestCount)
+    .map((attendee) => ({
+      paymentId: attendee.paymentId,
+      payerName: attendee.payerName,
+      guestCount: attendee.guestCount,
+      seatCount: attendee.seats.length,
+    }));
+
+  const unnumbered = valid
+    .map((attendee) => ({
+      paymentId: attendee.paymentId,
+      payerName: attendee.payerName,
+      seats: attendee.seats
+        .filter((seat) => seat.seat === null)
+        .sort(compareSeats)
+        .map((seat) => ({ seat, parsed: isSeatParsed(seat) })),
+    }))
+    .filter((party) => party.seats.length > 0);
+
+  const releasable = invalid
+    .filter((attendee) => attendee.seats.length > 0)
+    .map((attendee) => ({
+      paymentId: attendee.paymentId,
+      payerName: attendee.payerName,
+      paymentState: attendee.paymentState,
+      seats: attendee.seats.map((seat) => {
+        const key = getSeatKey(seat);
+        return { seat, reassigned: key !== null && held.has(key) };
+      }),
+    }));
+
+  return {
+    event,
+    seatCount: valid.reduce((total, attendee) => total + attendee.seats.length, 0),
+    conflicts,
+    missingSeats,
+    unnumbered,
+    releasable,
+  };
+};
+
+export const hasSeatIssues = (report: SeatAuditReport): boolean =>
+  report.conflicts.length > 0 ||
+  report.missingSeats.length > 0 ||
+  report.releasable.length > 0 ||
+  // Table-only tickets are normal at table venues; only unrecognized seats are a problem
+  report.unnumbered.some((party) => party.seats.some((entry) => !entry.parsed));
@@ -0,0 +1,93 @@
+import ExcelJS from 'exceljs';
+import Papa from 'papaparse';
+import type { SeatLookupResult } from '@/lib/db';
+import { PAYMENT_STATE_LABELS } from '@/lib/payment-status';
+import { compareSeats } from '@/lib/seats';
+
+// CSV/XLSX export of seat lookup results and event rosters.
+// One row per seat so section/row/table/seat stay separate columns; a payment
+// without seats still gets a single row.
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx'];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat);
+
+const COLUMNS: Array<{ header: string; width: number; value: (result: SeatLookupResult, seatIndex: number) => unknown }> = [
+  { header: 'Event ID', width: 10, value: (r) => r.eventId },
+  { header: 'Event', width: 30, value: (r) => r.eventName },
+  { header: 'Event Date', width: 12, value: (r) => r.eventStartDate },
+  { header: 'Event Time', width: 10, value: (r) => r.eventStartTime },
+  { header: 'Timezone', width: 18, value: (r) => r.timezone },
+  { header: 'Payment ID', width: 12, value: (r) => r.paymentId },
+  { header: 'Amount', width: 10, value: (r) => r.amount },
+  { header: 'Net Amount', width: 11, value: (r) => r.netAmount },
+  { header: 'Payment Status', width: 18, value: (r) => PAYMENT_STATE_LABELS[r.paymentState] },
+  { header: 'First Name', width: 16, value: (r) => r.payerFirstName },
+  { header: 'Last Name', width: 16, value: (r) => r.payerLastName },
+  { header: 'Email', width: 28, value: (r) => r.payerEmail },
+  { header: 'Party Size', width: 10, value: (r) => Math.max(r.guestCount, 1) },
+  { header: 'Section', width: 12, value: (r, i) => r.seats[i]?.section },
+  { header: 'Row', width: 8, value: (r, i) => r.seats[i]?.row },
+  { header: 'Table', width: 8, value: (r, i) => r.seats[i]?.table },
+  { header: 'Seat', width: 8, value: (r, i) => r.seats[i]?.seat },
+  { header: 'Seat ID', width: 14, value: (r, i) => r.seats[i]?.seatId },
+  { header: 'Checked In', width: 10, value: (r) => (r.checkIns.length > 0 ? 'Yes' : 'No') },
+];
+
+export const toExportRows = (results: SeatLookupResult[]): unknown[][] => {
+  return results.flatMap((result) => {
+    const sorted = { ...result, seats: [...result.seats].sort(compareSeats) };
+    const seatIndexes = sorted.seats.length > 0 ? sorted.seats.map((_, i) => i) : [0];
+
+    return seatIndexes.map((seatIndex) => COLUMNS.map((column) => column.value(sorted, seatIndex) ?? null));
+  });
+};
+
+export const toCsv = (results: SeatLookupResult[]): string => {
+  return Papa.unparse({
+    fields: COLUMNS.map((column) => column.header),
+    data: toExportRows(results),
+  }, {
+    // Names are user-entered; stop spreadsheets from running them as formulas
+    escapeFormulae: true,
+  });
+};
+
+export const toXlsx = async (results: SeatLookupResult[], sheetName: string): Promise<Uint8Array<ArrayBuffer>> => {
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are capped at 31 characters and can't contain []:*?/\
+  const sheet = workbook.addWorksheet(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Export');
+
+  sheet.columns = COLUMNS.map((column) => ({ header: column.header, width: column.width }));
+  sheet.addRows(toExportRows(results));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+  return new Uint8Array(await workbook.xlsx.writeBuffer());
+};
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Serialize results in the requested format with download headers
+export const buildExport = async (
+  results: SeatLookupResult[],
+  format: ExportFormat,
+  fileName: string
+): Promise<{ body: string | Uint8Array<ArrayBuffer>; headers: Record<string, string> }> => {
+  const body = format === 'csv' ? toCsv(results) : await toXlsx(results, fileName);
+
+  return {
+    body,
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${fileName}.${format}"`,
+      'Cache-Control': 'no-store',
+    },
+  };
+};
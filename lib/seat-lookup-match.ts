@@ -0,0 +1,135 @@
+import { getPhoneticKeys, MIN_MATCH_SCORE, scoreNameMatch, soundex, tokenizeName } from '@/lib/name-match';
+import { detectSearchType, normalizePhone, SearchType } from '@/lib/search-query';
+import type { AttendeeGuest } from '@/lib/seats';
+
+// Seat lookup matching rules in plain JS. The server applies the candidate rules in
+// SQL (see searchPaymentsByNameOrEmail) and scores names with these functions (email and
+// phone scores are mirrored in SQL); the offline kiosk applies both here so a cached
+// roster answers a search the same way.
+
+export interface SeatLookupMatchFields {
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+const contains = (value: string | null, search: string) =>
+  value !== null && value.toLowerCase().includes(search.toLowerCase());
+
+// Who in the party a search matched: the buyer, or one of their named guests
+export type SeatLookupMatchedBy = 'buyer' | 'guest';
+
+export interface SeatLookupPartyMatch {
+  matchScore: number;
+  matchedBy: SeatLookupMatchedBy;
+  matchedGuest: AttendeeGuest | null;
+}
+
+// JS version of the SQL candidate filter: substring matches on the searched field,
+// plus soundex matches on first/last name for name searches
+export const isSeatLookupCandidate = (
+  searchType: SearchType,
+  searchQuery: string,
+  fields: SeatLookupMatchFields
+): boolean => {
+  if (searchType === 'email') {
+    return contains(fields.email, searchQuery);
+  }
+
+  if (searchType === 'phone') {
+    return fields.phone !== null && fields.phone.replace(/\D/g, '').includes(normalizePhone(searchQuery));
+  }
+
+  const fullName = `${fields.firstName || ''} ${fields.lastName || ''}`;
+  if (contains(fields.firstName, searchQuery) || contains(fields.lastName, searchQuery) || contains(fullName, searchQuery)) {
+    return true;
+  }
+
+  // SQL's soundex(NULL) is NULL, which never matches
+  const firstKey = fields.firstName === null ? null : soundex(fields.firstName);
+  const lastKey = fields.lastName === null ? null : soundex(fields.lastName);
+  const keys = getPhoneticKeys(searchQuery);
+
+  if (tokenizeName(searchQuery).length > 1) {
+    return (firstKey === keys.first && lastKey === keys.last) || (firstKey === keys.last && lastKey === keys.first);
+  }
+  return firstKey === keys.first || lastKey === keys.first;
+};
+
+// Relevance of a candidate to the query. Email and phone are substring matches,
+// so only exact versus partial matters there.
+export const scoreSeatLookupMatch = (
+  searchType: SearchType,
+  searchQuery: string,
+  fields: SeatLookupMatchFields
+): number => {
+  if (searchType === 'email') {
+    return fields.email?.toLowerCase() === searchQuery.trim().toLowerCase() ? 1 : 0.8;
+  }
+
+  if (searchType === 'phone') {
+    return normalizePhone(fields.phone || '') === normalizePhone(searchQuery) ? 1 : 0.8;
+  }
+
+  return scoreNameMatch(searchQuery, fields.firstName, fields.lastName);
+};
+
+// Both steps together: the match score, or null when the attendee isn't a match
+export const matchSeatLookup = (searchQuery: string, fields: SeatLookupMatchFields): number | null => {
+  const trimmed = searchQuery.trim();
+  const searchType = detectSearchType(trimmed);
+
+  if (!trimmed || !isSeatLookupCandidate(searchType, trimmed, fields)) {
+    return null;
+  }
+
+  const score = scoreSeatLookupMatch(searchType, trimmed, fields);
+  return score >= MIN_MATCH_SCORE ? score : null;
+};
+
+// Guests only carry names, so the fields the shared rules look at for a guest row
+export const toGuestMatchFields = (guest: Pick<AttendeeGuest, 'firstName' | 'lastName'>): SeatLookupMatchFields => ({
+  firstName: guest.firstName,
+  lastName: guest.lastName,
+  email: null,
+  phone: null,
+});
+
+// Pick the better of two party matches; on a tie the buyer wins, since a buyer's own
+// guest row usually repeats their name
+export const preferPartyMatch = <T extends Pick<SeatLookupPartyMatch, 'matchScore' | 'matchedBy'>>(
+  current: T | null,
+  candidate: T
+): T => {
+  if (!current || candidate.matchScore > current.matchScore) {
+    return candidate;
+  }
+  if (candidate.matchScore === current.matchScore && candidate.matchedBy === 'buyer') {
+    return candidate;
+  }
+  return current;
+};
+
+// Match a whole party: the buyer and every named guest, keeping the best
+export const matchSeatLookupParty = (
+  searchQuery: string,
+  buyer: SeatLookupMatchFields,
+  guests: AttendeeGuest[]
+): SeatLookupPartyMatch | null => {
+  let best: SeatLookupPartyMatch | null = null;
+
+  const buyerScore = matchSeatLookup(searchQuery, buyer);
+  if (buyerScore !== null) {
+    best = { matchScore: buyerScore, matchedBy: 'buyer', matchedGuest: null };
+  }
+
+  guests.forEach((guest) => {
+    const guestScore = matchSeatLookup(searchQuery, toGuestMatchFields(guest));
+    if (guestScore !== null) {
+      best = preferPartyMatch(best, { matchScore: guestScore, matchedBy: 'guest', matchedGuest: guest });
+    }
+  });
+
+  return best;
+};
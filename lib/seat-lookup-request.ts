@@ -0,0 +1,75 @@
+import type { SeatLookupDateFilter } from '@/lib/db';
+import { DATE_WINDOWS, DateWindow } from '@/lib/timezone';
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// A YYYY-MM-DD string naming a real calendar day; Postgres rejects 2026-13-45 in a ::date cast
+const isDateKey = (value: string): boolean => {
+  const match = value.match(DATE_KEY_PATTERN);
+  if (!match) {
+    return false;
+  }
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+export type ParsedDateFilter =
+  | { ok: true; filter: SeatLookupDateFilter }
+  | { ok: false; error: string };
+
+// Parse the seat lookup date filter from a request body or query string.
+// `dateWindow` is one or more of today/upcoming/past; `dateFrom`/`dateTo`
+// (YYYY-MM-DD, inclusive) give a custom range. No filter means all dates.
+export const parseDateFilter = (input: {
+  dateWindow?: unknown;
+  dateFrom?: unknown;
+  dateTo?: unknown;
+}): ParsedDateFilter => {
+  const filter: SeatLookupDateFilter = {};
+
+  if (input.dateWindow !== undefined && input.dateWindow !== null && input.dateWindow !== '') {
+    const windows = Array.isArray(input.dateWindow)
+      ? input.dateWindow
+      : String(input.dateWindow).split(',');
+
+    const invalid = windows.filter((window) => !DATE_WINDOWS.includes(window as DateWindow));
+    if (invalid.length > 0) {
+      return { ok: false, error: `Unknown date window: ${invalid.join(', ')}. Use ${DATE_WINDOWS.join(', ')}` };
+    }
+
+    filter.windows = windows as DateWindow[];
+  }
+
+  for (const key of ['dateFrom', 'dateTo'] as const) {
+    const value = input[key];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string' || !isDateKey(value)) {
+      return { ok: false, error: `${key} must be a valid date in YYYY-MM-DD format` };
+    }
+    filter[key] = value;
+  }
+
+  if (filter.dateFrom && filter.dateTo && filter.dateFrom > filter.dateTo) {
+    return { ok: false, error: 'dateFrom must be on or before dateTo' };
+  }
+
+  return { ok: true, filter };
+};
+
+// Page numbers start at 1; page size is capped so one request can't pull everything
+export const parsePagination = (input: { page?: unknown; pageSize?: unknown }) => {
+  const page = Math.max(parseInt(String(input.page ?? 1)) || 1, 1);
+  const pageSize = Math.min(
+    Math.max(parseInt(String(input.pageSize ?? DEFAULT_PAGE_SIZE)) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  return { page, pageSize };
+};
@@ -0,0 +1,188 @@
+import layouts from '@/config/venue-layouts.json';
+import type { SeatLookupResult } from '@/lib/db';
+import type { Seat } from '@/lib/seats';
+
+// Venue layouts live in config/venue-layouts.json, keyed by host user ID.
+// Each section lists its tables (or rows) and how many seats each one has;
+// `seats` can also be an explicit list of seat labels.
+export interface VenueLayout {
+  name: string;
+  groupBy: 'table' | 'row';
+  sections: Array<{
+    name: string | null;
+    groups: Array<{
+      id: string;
+      seats: number | string[];
+    }>;
+  }>;
+}
+
+export type SeatMapSeatStatus = 'empty' | 'sold' | 'highlighted';
+
+export interface SeatMapSeat {
+  key: string;
+  seat: string | null;
+  status: SeatMapSeatStatus;
+  attendeeName: string | null;
+  paymentId: number | null;
+}
+
+export interface SeatMapGroup {
+  id: string;
+  seats: SeatMapSeat[];
+}
+
+export interface SeatMapSection {
+  name: string | null;
+  groups: SeatMapGroup[];
+}
+
+export interface SeatMap {
+  groupBy: 'table' | 'row';
+  hasLayout: boolean;
+  sections: SeatMapSection[];
+  // Sold seats that don't fit anywhere in the configured layout
+  unplaced: SeatMapSeat[];
+  soldCount: number;
+  emptyCount: number;
+}
+
+const venueLayouts = layouts as Record<string, VenueLayout>;
+
+export const getVenueLayout = (hostUserId: number): VenueLayout | null => {
+  return venueLayouts[String(hostUserId)] || null;
+};
+
+const sameValue = (a: string | null, b: string | null) =>
+  (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+interface SoldSeat {
+  seat: Seat;
+  attendee: SeatLookupResult;
+}
+
+const toMapSeat = (sold: SoldSeat, key: string, highlightPaymentIds: Set<number>): SeatMapSeat => ({
+  key,
+  seat: sold.seat.seat,
+  status: highlightPaymentIds.has(sold.attendee.paymentId) ? 'highlighted' : 'sold',
+  attendeeName: sold.attendee.payerName,
+  paymentId: sold.attendee.paymentId,
+});
+
+// Without a layout, the map can only show sold seats grouped as they were sold
+const buildFromSoldSeats = (
+  soldSeats: SoldSeat[],
+  groupBy: 'table' | 'row',
+  highlightPaymentIds: Set<number>
+): SeatMapSection[] => {
+  const sections = new Map<string, Map<string, SeatMapSeat[]>>();
+
+  soldSeats.forEach((sold, index) => {
+    const sectionName = sold.seat.section || '';
+    const groupId = sold.seat[groupBy] || sold.seat.table || sold.seat.row || 'Unassigned';
+
+    if (!sections.has(sectionName)) {
+      sections.set(sectionName, new Map());
+    }
+    const groups = sections.get(sectionName)!;
+    if (!groups.has(groupId)) {
+      groups.set(groupId, []);
+    }
+    groups.get(groupId)!.push(toMapSeat(sold, `sold-${index}`, highlightPaymentIds));
+  });
+
+  const byNumber = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+  return Array.from(sections.keys()).sort(byNumber).map((sectionName) => {
+    const groups = sections.get(sectionName)!;
+    return {
+      name: sectionName || null,
+      groups: Array.from(groups.keys()).sort(byNumber).map((id) => ({
+        id,
+        seats: groups.get(id)!.sort((a, b) => byNumber(a.seat || '', b.seat || '')),
+      })),
+    };
+  });
+};
+
+// Lay every sold seat for an event onto the venue layout. Seats of the
+// highlighted payments are marked so the searched party stands out.
+export const buildSeatMap = (
+  attendees: SeatLookupResult[],
+  layout: VenueLayout | null,
+  highlightPaymentIds: number[] = []
+): SeatMap => {
+  const highlighted = new Set(highlightPaymentIds);
+  const soldSeats: SoldSeat[] = attendees.flatMap((attendee) =>
+    attendee.seats.map((seat) => ({ seat, attendee }))
+  );
+
+  if (!layout) {
+    const sections = buildFromSoldSeats(soldSeats, 'table', highlighted);
+    return {
+      groupBy: 'table',
+      hasLayout: false,
+      sections,
+      unplaced: [],
+      soldCount: soldSeats.length,
+      emptyCount: 0,
+    };
+  }
+
+  const sections: SeatMapSection[] = layout.sections.map((section, sectionIndex) => ({
+    name: section.name,
+    groups: section.groups.map((group) => {
+      const labels = Array.isArray(group.seats)
+        ? group.seats
+        : Array.from({ length: group.seats }, (_, i) => String(i + 1));
+
+      return {
+        id: group.id,
+        seats: labels.map((label) => ({
+          key: `${sectionIndex}-${group.id}-${label}`,
+          seat: label,
+          status: 'empty' as SeatMapSeatStatus,
+          attendeeName: null,
+          paymentId: null,
+        })),
+      };
+    }),
+  }));
+
+  const unplaced: SeatMapSeat[] = [];
+
+  // Place numbered seats before table-only tickets so those can't take a numbered chair
+  const placementOrder = [...soldSeats].sort((a, b) => Number(a.seat.seat === null) - Number(b.seat.seat === null));
+
+  placementOrder.forEach((sold, index) => {
+    const groupId = sold.seat[layout.groupBy];
+
+    // A seat without a section can still be placed if its table/row is unique
+    const group = sections
+      .filter((section) => !sold.seat.section || !section.name || sameValue(section.name, sold.seat.section))
+      .flatMap((section) => section.groups)
+      .find((candidate) => groupId !== null && sameValue(candidate.id, groupId));
+
+    // Table-only tickets have no seat number, so they take the next free chair
+    const target = group?.seats.find((mapSeat) =>
+      mapSeat.status === 'empty' && (sold.seat.seat === null || sameValue(mapSeat.seat, sold.seat.seat))
+    );
+
+    if (target) {
+      Object.assign(target, toMapSeat(sold, target.key, highlighted), { seat: target.seat });
+    } else {
+      unplaced.push(toMapSeat(sold, `unplaced-${index}`, highlighted));
+    }
+  });
+
+  const allSeats = sections.flatMap((section) => section.groups.flatMap((group) => group.seats));
+
+  return {
+    groupBy: layout.groupBy,
+    hasLayout: true,
+    sections,
+    unplaced,
+    soldCount: soldSeats.length,
+    emptyCount: allSeats.filter((mapSeat) => mapSeat.status === 'empty').length,
+  };
+};
@@ -0,0 +1,204 @@
+// Structured seats parsed from attendee_guests.seat_obj / seat_id.
+// Shared by the API (to build results) and the dashboard (to sort and group).
+
+export interface SeatComponent {
+  key: string;
+  label: string;
+  value: string;
+}
+
+// Raw seat as aggregated from attendee_guests by the seat lookup queries
+export interface RawSeat {
+  guest_id: number | null;
+  seat_obj: {
+    components?: SeatComponent[];
+  } | null;
+  seat_id: string | null;
+  // attendee_guests name columns; blank for guests the buyer never named
+  first_name?: string | null;
+  last_name?: string | null;
+}
+
+export interface Seat {
+  section: string | null;
+  row: string | null;
+  table: string | null;
+  seat: string | null;
+  // attendee_guests.seat_id as stored, kept for matching against seat maps
+  seatId: string | null;
+  // attendee_guests.id
+  guestId: number | null;
+  // Display string, e.g. "Section: Main, Table: 12, Seat: 3"
+  label: string;
+}
+
+// A named attendee_guests row, kept so guest-level searches can say who matched
+export interface AttendeeGuest {
+  guestId: number | null;
+  firstName: string | null;
+  lastName: string | null;
+  name: string;
+  // Null when the guest hasn't been assigned a seat
+  seat: Seat | null;
+}
+
+type SeatPart = 'section' | 'row' | 'table' | 'seat';
+
+const SEAT_PARTS: SeatPart[] = ['section', 'row', 'table', 'seat'];
+
+// Find which seat part a component describes from its key, falling back to its label
+const toSeatPart = (component: SeatComponent): SeatPart | null => {
+  const candidates = [component.key, component.label].map((value) => (value || '').trim().toLowerCase());
+
+  for (const candidate of candidates) {
+    const part = SEAT_PARTS.find((name) => candidate === name || candidate.startsWith(`${name} `) || candidate.startsWith(`${name}_`));
+    if (part) {
+      return part;
+    }
+  }
+
+  return null;
+};
+
+// Free-form seat_id values like "Table 12 Seat 3" or "Sec A - Row 4"
+const SEAT_ID_PATTERN = /\b(section|sec|row|table|tbl|seat)\b\s*[:#-]?\s*([a-z0-9]+)/gi;
+
+const SEAT_ID_ALIASES: Record<string, SeatPart> = {
+  section: 'section',
+  sec: 'section',
+  row: 'row',
+  table: 'table',
+  tbl: 'table',
+  seat: 'seat',
+};
+
+const emptySeatParts = (): Record<SeatPart, string | null> => ({
+  section: null,
+  row: null,
+  table: null,
+  seat: null,
+});
+
+// Prefer seat_obj.components, fallback to seat_id if seat_obj is empty
+export const parseSeat = (raw: RawSeat): Seat | null => {
+  const parts = emptySeatParts();
+  const components = raw.seat_obj?.components;
+
+  if (components && Array.isArray(components) && components.length > 0) {
+    components.forEach((component) => {
+      const part = toSeatPart(component);
+      if (part && !parts[part]) {
+        parts[part] = String(component.value);
+      }
+    });
+
+    return {
+      ...parts,
+      seatId: raw.seat_id,
+      guestId: raw.guest_id,
+      label: components.map((component) => `${component.label}: ${component.value}`).join(', '),
+    };
+  }
+
+  if (raw.seat_id) {
+    for (const match of raw.seat_id.matchAll(SEAT_ID_PATTERN)) {
+      const part = SEAT_ID_ALIASES[match[1].toLowerCase()];
+      if (!parts[part]) {
+        parts[part] = match[2];
+      }
+    }
+
+    return {
+      ...parts,
+      seatId: raw.seat_id,
+      guestId: raw.guest_id,
+      label: raw.seat_id,
+    };
+  }
+
+  return null;
+};
+
+export const parseSeats = (rawSeats: RawSeat[] | null): Seat[] => {
+  if (!rawSeats || !Array.isArray(rawSeats)) {
+    return [];
+  }
+
+  return rawSeats
+    .map(parseSeat)
+    .filter((seat): seat is Seat => seat !== null && seat.label.length > 0);
+};
+
+// Guests with a first or last name, in attendee_guests order
+export const parseGuests = (rawSeats: RawSeat[] | null): AttendeeGuest[] => {
+  if (!rawSeats || !Array.isArray(rawSeats)) {
+    return [];
+  }
+
+  return rawSeats.flatMap((raw) => {
+    const firstName = raw.first_name?.trim() || null;
+    const lastName = raw.last_name?.trim() || null;
+    if (!firstName && !lastName) {
+      return [];
+    }
+
+    const seat = parseSeat(raw);
+    return [{
+      guestId: raw.guest_id,
+      firstName,
+      lastName,
+      name: [firstName, lastName].filter(Boolean).join(' '),
+      seat: seat && seat.label.length > 0 ? seat : null,
+    }];
+  });
+};
+
+// One seat per line for the card view
+export const formatSeats = (seats: Seat[]): string | null => {
+  return seats.length > 0 ? seats.map((seat) => seat.label).join('\n') : null;
+};
+
+// Whether any of section, row, table or seat could be read from the seat
+export const isSeatParsed = (seat: Seat): boolean => SEAT_PARTS.some((part) => seat[part] !== null);
+
+// Identity of a specific chair, for spotting two parties on the same seat. Seats with a
+// seat number are keyed by their parts. Seats nothing could be parsed from (a free-form
+// seat_id like "A12", or seat_obj components with unknown keys) are keyed by their raw
+// seat_id or label, ignoring case, spaces and punctuation, so repeated text still counts.
+// Table-only and other seats without a seat number have none, as parties can share them.
+export const getSeatKey = (seat: Seat): string | null => {
+  if (seat.seat !== null) {
+    return `seat:${[seat.section, seat.row, seat.table, seat.seat]
+      .map((part) => (part || '').trim().toLowerCase())
+      .join('|')}`;
+  }
+
+  if (isSeatParsed(seat)) {
+    return null;
+  }
+
+  const raw = (seat.seatId || seat.label).toLowerCase().replace(/[^a-z0-9]/g, '');
+  return raw ? `raw:${raw}` : null;
+};
+
+const compareParts = (a: string | null, b: string | null): number => {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return a.localeCompare(b, undefined, { numeric: true });
+};
+
+// Order seats the way a room is walked: section, table, row, then seat number
+export const compareSeats = (a: Seat | undefined, b: Seat | undefined): number => {
+  if (!a || !b) {
+    return a ? -1 : b ? 1 : 0;
+  }
+
+  return (
+    compareParts(a.section, b.section) ||
+    compareParts(a.table, b.table) ||
+    compareParts(a.row, b.row) ||
+    compareParts(a.seat, b.seat) ||
+    a.label.localeCompare(b.label, undefined, { numeric: true })
+  );
+};
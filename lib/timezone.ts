@@ -0,0 +1,72 @@
+// Timezone helpers shared by the API and the dashboard.
+// Everything goes through Intl with an explicit IANA zone, so DST is handled by
+// the runtime's tz database instead of a hand-maintained offset.
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+// Where an event falls relative to today in its own zone; 'upcoming' is after today
+export type DateWindow = 'past' | 'today' | 'upcoming';
+
+export const DATE_WINDOWS: DateWindow[] = ['past', 'today', 'upcoming'];
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Calendar date in the given zone as YYYY-MM-DD, which sorts and compares as a string
+export const getDateKey = (date: Date | string, timeZone: string = DEFAULT_TIMEZONE): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(date));
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// MM/DD/YYYY in the given zone
+export const formatEventDate = (date: Date | string, timeZone: string = DEFAULT_TIMEZONE): string => {
+  return new Date(date).toLocaleDateString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  });
+};
+
+// h:mm AM/PM in the given zone
+export const formatEventTime = (date: Date | string, timeZone: string = DEFAULT_TIMEZONE): string => {
+  return new Date(date).toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+};
+
+// Compare an event's local calendar date against today's date in the same zone
+export const classifyEventDate = (
+  startAt: Date | string,
+  timeZone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): DateWindow => {
+  const eventKey = getDateKey(startAt, timeZone);
+  const todayKey = getDateKey(now, timeZone);
+
+  if (eventKey < todayKey) {
+    return 'past';
+  }
+  if (eventKey > todayKey) {
+    return 'upcoming';
+  }
+  return 'today';
+};
@@ -0,0 +1,136 @@
+import Papa from 'papaparse';
+import type { PaymentResult } from '@/lib/db';
+import { BillingDetails, getPayrixConfig, isPayrixTransactionId } from '@/lib/payrix';
+import { lookupZipCodes, ZipCacheStats } from '@/lib/zip-cache';
+
+// Payments from the warehouse joined with their billing details from Payrix (Worldpay), as
+// returned by /api/query-transactions and by background ZIP jobs.
+
+export interface TransactionZip {
+  // The ZIP, or a short reason when there is none
+  zipCode: string;
+  // null when there was nothing to look up, the lookup failed or Payrix had no transaction
+  billing: BillingDetails | null;
+  // Set when the lookup failed
+  error: string | null;
+}
+
+export interface TransactionResult {
+  transactionId: string;
+  zipCode: string;
+  // Billing details from Payrix; null when it had none
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  state: string | null;
+  country: string | null;
+  avsResult: string | null;
+  cvvResult: string | null;
+  createdAt: string;
+  amount: number | null;
+  status: string;
+  cardType: string;
+  lastFour: string;
+  ipAddress: string | undefined;
+  // Database-specific fields
+  paymentId: number;
+  userId: number | null;
+  eventId: number | null;
+  eventAttendeeId: number | null;
+}
+
+export interface TransactionLookupError {
+  transactionId: string;
+  error: string;
+}
+
+// ZIP code and billing details for each payment, in order: from the ZIP cache or looked
+// up in Payrix concurrently, or a short reason when there is nothing to look up
+export const lookupTransactionZips = async (
+  transactionIds: Array<string | null>
+): Promise<{ zips: TransactionZip[]; cache: ZipCacheStats | null }> => {
+  const config = getPayrixConfig();
+  const lookup = config ? await lookupZipCodes(config, transactionIds.filter(isPayrixTransactionId)) : null;
+  const byId = new Map((lookup?.results || []).map((result) => [result.transactionId, result]));
+
+  const zips = transactionIds.map((transactionId): TransactionZip => {
+    if (!transactionId) {
+      return { zipCode: 'No transaction ID', billing: null, error: null };
+    }
+    // Only Worldpay-format IDs (t1_txn_...) can be looked up
+    if (!isPayrixTransactionId(transactionId)) {
+      return { zipCode: 'Invalid transaction format', billing: null, error: null };
+    }
+    if (!config) {
+      return { zipCode: 'API key not configured', billing: null, error: null };
+    }
+
+    const result = byId.get(transactionId)!;
+    if (!result.ok) {
+      return { zipCode: `API error: ${result.status ?? result.error}`, billing: null, error: result.error };
+    }
+    return { zipCode: result.zipCode || 'ZIP not found', billing: result.billing, error: null };
+  });
+
+  return { zips, cache: lookup?.cache || null };
+};
+
+export const toTransactionResult = (payment: PaymentResult, zip: TransactionZip): TransactionResult => ({
+  transactionId: payment.transaction_id,
+  zipCode: zip.zipCode,
+  address1: zip.billing?.address1 ?? null,
+  address2: zip.billing?.address2 ?? null,
+  city: zip.billing?.city ?? null,
+  state: zip.billing?.state ?? null,
+  country: zip.billing?.country ?? null,
+  avsResult: zip.billing?.avsResult ?? null,
+  cvvResult: zip.billing?.cvvResult ?? null,
+  createdAt: payment.created_at,
+  amount: payment.amount ? Number(payment.amount) : null,
+  status: payment.status,
+  cardType: payment.card_type,
+  lastFour: payment.last_four,
+  ipAddress: payment.metadata?.ip_address,
+  paymentId: payment.id,
+  userId: payment.user_id,
+  eventId: payment.event_id,
+  eventAttendeeId: payment.event_attendee_id,
+});
+
+// The lookups that failed, for the `errors` list next to the results
+export const toLookupErrors = (payments: PaymentResult[], zips: TransactionZip[]): TransactionLookupError[] =>
+  payments.flatMap((payment, index) => {
+    const error = zips[index].error;
+    return error ? [{ transactionId: payment.transaction_id, error }] : [];
+  });
+
+const CSV_COLUMNS: Array<{ header: string; value: (result: TransactionResult) => unknown }> = [
+  { header: 'Transaction ID', value: (r) => r.transactionId },
+  { header: 'ZIP Code', value: (r) => r.zipCode },
+  { header: 'Address 1', value: (r) => r.address1 },
+  { header: 'Address 2', value: (r) => r.address2 },
+  { header: 'City', value: (r) => r.city },
+  { header: 'State', value: (r) => r.state },
+  { header: 'Country', value: (r) => r.country },
+  { header: 'AVS Result', value: (r) => r.avsResult },
+  { header: 'CVV Result', value: (r) => r.cvvResult },
+  { header: 'Created At', value: (r) => r.createdAt },
+  { header: 'Amount', value: (r) => r.amount },
+  { header: 'Status', value: (r) => r.status },
+  { header: 'Card Type', value: (r) => r.cardType },
+  { header: 'Last Four', value: (r) => r.lastFour },
+  { header: 'IP Address', value: (r) => r.ipAddress },
+  { header: 'Payment ID', value: (r) => r.paymentId },
+  { header: 'User ID', value: (r) => r.userId },
+  { header: 'Event ID', value: (r) => r.eventId },
+  { header: 'Event Attendee ID', value: (r) => r.eventAttendeeId },
+];
+
+export const toTransactionCsv = (results: TransactionResult[]): string =>
+  Papa.unparse(
+    {
+      fields: CSV_COLUMNS.map((column) => column.header),
+      data: results.map((result) => CSV_COLUMNS.map((column) => column.value(result) ?? null)),
+    },
+    { escapeFormulae: true }
+  );
@@ -0,0 +1,42 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SeatLookupResult } from '@/lib/db';
+import { LIVE_ERROR_EVENT, LIVE_PING_EVENT, LIVE_PURCHASE_EVENT } from '@/lib/live-feed';
+
+// Subscribe to /api/live-purchases while `enabled`. EventSource reconnects by itself
+// (resuming after the last cursor), so this only tracks whether the feed is healthy.
+// Returns true while the feed is connected and its last poll succeeded.
+export const useLivePurchases = (
+  hostUserId: string,
+  onPurchase: (purchase: SeatLookupResult) => void,
+  enabled = true
+): boolean => {
+  const [isLive, setIsLive] = useState(false);
+  const onPurchaseRef = useRef(onPurchase);
+
+  useEffect(() => {
+    onPurchaseRef.current = onPurchase;
+  }, [onPurchase]);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsLive(false);
+      return;
+    }
+
+    const source = new EventSource(`/api/live-purchases${hostUserId ? `?hostUserId=${hostUserId}` : ''}`);
+
+    source.addEventListener(LIVE_PURCHASE_EVENT, (event) => {
+      onPurchaseRef.current(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener(LIVE_PING_EVENT, () => setIsLive(true));
+    source.addEventListener(LIVE_ERROR_EVENT, () => setIsLive(false));
+    source.onerror = () => setIsLive(false);
+
+    return () => {
+      source.close();
+      setIsLive(false);
+    };
+  }, [hostUserId, enabled]);
+
+  return isLive;
+};
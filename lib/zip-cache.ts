@@ -0,0 +1,201 @@
+import { readStore, updateStore } from '@/lib/local-store';
+import {
+  BillingDetails,
+  fetchPayrixTransactions,
+  PayrixClientConfig,
+  PayrixEnvironment,
+  PayrixResponse,
+  PayrixTransaction,
+  PayrixTransactionResult,
+} from '@/lib/payrix';
+
+// Persistent cache of Payrix ZIP lookups (with the rest of the billing details), keyed by
+// environment and transaction ID, so re-running a report doesn't query Payrix again. A
+// transaction's billing details never change, so found ZIPs are kept until invalidated;
+// "no ZIP" answers expire after ZIP_CACHE_NEGATIVE_TTL_HOURS (default 24) in case Payrix
+// fills them in later.
+// Failed lookups are never cached.
+
+interface ZipCacheEntry {
+  environment: PayrixEnvironment;
+  transactionId: string;
+  // null when Payrix had no transaction or no ZIP on it
+  zipCode: string | null;
+  // null when Payrix had no transaction. Missing on entries cached before billing
+  // details were kept, which are looked up again.
+  billing?: BillingDetails | null;
+  cachedAt: string;
+  // Only set for negative results
+  expiresAt: string | null;
+}
+
+interface ZipCacheStore {
+  entries: Record<string, ZipCacheEntry>;
+}
+
+export type ZipLookupResult =
+  | {
+      transactionId: string;
+      ok: true;
+      zipCode: string | null;
+      billing: BillingDetails | null;
+      cached: boolean;
+      // Payrix calls made for this lookup; 0 when served from the cache
+      attempts: number;
+      // Only for fresh lookups
+      response?: PayrixResponse<PayrixTransaction>;
+    }
+  | Extract<PayrixTransactionResult, { ok: false }>;
+
+// Counted over distinct transaction IDs
+export interface ZipCacheStats {
+  hits: number;
+  misses: number;
+  // Hits that were cached "no ZIP" answers
+  negativeHits: number;
+  hitRate: number;
+}
+
+export interface ZipCacheSummary {
+  entries: number;
+  negativeEntries: number;
+  byEnvironment: Partial<Record<PayrixEnvironment, number>>;
+  oldestCachedAt: string | null;
+}
+
+const STORE_NAME = 'zip-cache';
+const emptyStore = (): ZipCacheStore => ({ entries: {} });
+
+const cacheKey = (environment: PayrixEnvironment, transactionId: string) => `${environment}:${transactionId}`;
+
+const getNegativeTtlMs = (): number => {
+  const hours = parseFloat(process.env.ZIP_CACHE_NEGATIVE_TTL_HOURS || '');
+  return (hours >= 0 ? hours : 24) * 60 * 60 * 1000;
+};
+
+const isFresh = (entry: ZipCacheEntry | undefined, now: number): entry is ZipCacheEntry =>
+  !!entry && entry.billing !== undefined && (entry.expiresAt === null || new Date(entry.expiresAt).getTime() > now);
+
+// ZIP lookups for the given transactions, one result per ID in the order given,
+// answered from the cache where possible and from Payrix otherwise
+export const lookupZipCodes = async (
+  config: PayrixClientConfig,
+  transactionIds: string[]
+): Promise<{ results: ZipLookupResult[]; cache: ZipCacheStats }> => {
+  const uniqueIds = Array.from(new Set(transactionIds));
+  const store = await readStore(STORE_NAME, emptyStore());
+  const now = Date.now();
+
+  const hits = new Map<string, ZipCacheEntry>();
+  const misses: string[] = [];
+  uniqueIds.forEach((transactionId) => {
+    const entry = store.entries[cacheKey(config.environment, transactionId)];
+    if (isFresh(entry, now)) {
+      hits.set(transactionId, entry);
+    } else {
+      misses.push(transactionId);
+    }
+  });
+
+  const fetched = await fetchPayrixTransactions(config, misses);
+
+  if (misses.length > 0) {
+    const cachedAt = new Date().toISOString();
+    const negativeExpiry = new Date(Date.now() + getNegativeTtlMs()).toISOString();
+
+    await updateStore(STORE_NAME, emptyStore(), (data) => {
+      // Drop expired negatives while we're writing anyway
+      Object.entries(data.entries).forEach(([key, entry]) => {
+        if (!isFresh(entry, now)) {
+          delete data.entries[key];
+        }
+      });
+
+      fetched.forEach((result) => {
+        if (result.ok) {
+          data.entries[cacheKey(config.environment, result.transactionId)] = {
+            environment: config.environment,
+            transactionId: result.transactionId,
+            zipCode: result.zipCode,
+            billing: result.billing,
+            cachedAt,
+            expiresAt: result.zipCode ? null : negativeExpiry,
+          };
+        }
+      });
+    });
+  }
+
+  const fetchedById = new Map(fetched.map((result) => [result.transactionId, result]));
+  const results = transactionIds.map((transactionId): ZipLookupResult => {
+    const hit = hits.get(transactionId);
+    if (hit) {
+      return { transactionId, ok: true, zipCode: hit.zipCode, billing: hit.billing ?? null, cached: true, attempts: 0 };
+    }
+
+    const result = fetchedById.get(transactionId)!;
+    return result.ok
+      ? {
+          transactionId,
+          ok: true,
+          zipCode: result.zipCode,
+          billing: result.billing,
+          cached: false,
+          attempts: result.attempts,
+          response: result.response,
+        }
+      : result;
+  });
+
+  return {
+    results,
+    cache: {
+      hits: hits.size,
+      misses: misses.length,
+      negativeHits: Array.from(hits.values()).filter((entry) => entry.zipCode === null).length,
+      hitRate: uniqueIds.length > 0 ? hits.size / uniqueIds.length : 0,
+    },
+  };
+};
+
+export const getZipCacheSummary = async (): Promise<ZipCacheSummary> => {
+  const store = await readStore(STORE_NAME, emptyStore());
+  const now = Date.now();
+  const entries = Object.values(store.entries).filter((entry) => isFresh(entry, now));
+
+  const byEnvironment: Partial<Record<PayrixEnvironment, number>> = {};
+  entries.forEach((entry) => {
+    byEnvironment[entry.environment] = (byEnvironment[entry.environment] || 0) + 1;
+  });
+
+  return {
+    entries: entries.length,
+    negativeEntries: entries.filter((entry) => entry.zipCode === null).length,
+    byEnvironment,
+    oldestCachedAt: entries.map((entry) => entry.cachedAt).sort()[0] || null,
+  };
+};
+
+// Remove cached lookups: the given transactions (in every environment), only the
+// "no ZIP" answers, or everything when neither is given. Returns how many were removed.
+export const invalidateZipCache = async (params: {
+  transactionIds?: string[];
+  negativeOnly?: boolean;
+}): Promise<number> => {
+  const wanted = params.transactionIds ? new Set(params.transactionIds) : null;
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    let removed = 0;
+
+    Object.entries(store.entries).forEach(([key, entry]) => {
+      const matches =
+        (!wanted || wanted.has(entry.transactionId)) && (!params.negativeOnly || entry.zipCode === null);
+      if (matches) {
+        delete store.entries[key];
+        removed += 1;
+      }
+    });
+
+    return removed;
+  });
+};
@@ -0,0 +1,331 @@
+import { randomUUID } from 'crypto';
+import { searchPayments } from '@/lib/db';
+import { deleteStore, readStore, updateStore } from '@/lib/local-store';
+import {
+  lookupTransactionZips,
+  toLookupErrors,
+  toTransactionResult,
+  TransactionLookupError,
+  TransactionResult,
+} from '@/lib/transaction-zips';
+import type { ZipCacheStats } from '@/lib/zip-cache';
+
+// Background ZIP extractions: the same query as /api/query-transactions, run by an
+// in-process queue so large reports don't hold an HTTP request open for the whole Payrix
+// loop. Jobs are kept in the local store, and each completed job's results in a store of
+// their own, so a reloaded page can pick its jobs up again. Jobs run one at a time, in
+// chunks, saving progress after each chunk and stopping between chunks once cancelled.
+// A running job records which server process owns it and a heartbeat; once the heartbeat
+// goes stale (the process stopped) any process may take the job over, and it starts over.
+// Lookups it had already made come back from the ZIP cache.
+
+export type ZipJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ZipJobParams {
+  hostUserId: number;
+  transactionIds?: string[];
+  dateFrom?: string;
+  dateTo?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface ZipJobProgress {
+  // Payments the query returned; 0 until the job has run it
+  total: number;
+  done: number;
+  failed: number;
+  remaining: number;
+}
+
+export interface ZipJob {
+  id: string;
+  hostUserId: number;
+  status: ZipJobStatus;
+  params: ZipJobParams;
+  progress: ZipJobProgress;
+  // Summed over the job's chunks; null when Payrix isn't configured
+  cache: ZipCacheStats | null;
+  // Why the job failed
+  error: string | null;
+  createdAt: string;
+  createdBy: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  cancelledBy: string | null;
+  // The process running the job, and when it last reported in; null unless running
+  workerId: string | null;
+  heartbeatAt: string | null;
+}
+
+// What a finished job's download holds, shaped like the /api/query-transactions response
+export interface ZipJobResults {
+  results: TransactionResult[];
+  errors: TransactionLookupError[];
+  summary: {
+    total: number;
+    successful: number;
+    failed: number;
+    cache: ZipCacheStats | null;
+  };
+}
+
+interface ZipJobStore {
+  jobs: Record<string, ZipJob>;
+}
+
+// Jobs can go well past the 1,000 rows a synchronous query is capped at
+export const MAX_JOB_PAYMENTS = 10000;
+
+// Payments looked up between progress saves and cancellation checks
+const CHUNK_SIZE = 50;
+
+// Finished jobs (and their results) are dropped after this long
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A running job's owner reports in this often, independently of its chunks (one slow
+// chunk can spend a while in Payrix retries); a job that hasn't reported in for
+// HEARTBEAT_STALE_MS is taken to be orphaned
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const HEARTBEAT_STALE_MS = 2 * 60 * 1000;
+
+// Identifies this server process as a job's owner
+const WORKER_ID = randomUUID();
+
+const STORE_NAME = 'zip-jobs';
+const emptyStore = (): ZipJobStore => ({ jobs: {} });
+
+const getResultsStoreName = (jobId: string) => `zip-job-results-${jobId}`;
+
+export const isFinished = (job: ZipJob): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+const addCacheStats = (total: ZipCacheStats | null, chunk: ZipCacheStats | null): ZipCacheStats | null => {
+  if (!total || !chunk) {
+    return total || chunk;
+  }
+
+  const hits = total.hits + chunk.hits;
+  const misses = total.misses + chunk.misses;
+  return {
+    hits,
+    misses,
+    negativeHits: total.negativeHits + chunk.negativeHits,
+    hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+  };
+};
+
+const isOrphaned = (job: ZipJob, now: number): boolean =>
+  job.status === 'running' && (!job.heartbeatAt || now - new Date(job.heartbeatAt).getTime() > HEARTBEAT_STALE_MS);
+
+// Apply `change` to a job this process is still running; returns false once it has been
+// cancelled, removed or taken over by another process, so the worker knows to stop
+const updateRunningJob = (jobId: string, change: (job: ZipJob) => void): Promise<boolean> =>
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    const job = store.jobs[jobId];
+    if (!job || job.status !== 'running' || job.workerId !== WORKER_ID) {
+      return false;
+    }
+    job.heartbeatAt = new Date().toISOString();
+    change(job);
+    return true;
+  });
+
+const runJob = async (job: ZipJob): Promise<void> => {
+  const { params } = job;
+  const heartbeat = setInterval(() => {
+    updateRunningJob(job.id, () => undefined).catch((error) => {
+      console.error(`ZIP job ${job.id} heartbeat failed:`, error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const payments = await searchPayments({
+      transactionIds: params.transactionIds,
+      dateFrom: params.dateFrom,
+      dateTo: params.dateTo,
+      hostUserId: params.hostUserId,
+      limit: params.limit,
+      offset: params.offset,
+    });
+
+    const progress: ZipJobProgress = { total: payments.length, done: 0, failed: 0, remaining: payments.length };
+    const isStarted = await updateRunningJob(job.id, (stored) => {
+      stored.progress = { ...progress };
+    });
+    if (!isStarted) {
+      return;
+    }
+
+    const results: TransactionResult[] = [];
+    const errors: TransactionLookupError[] = [];
+    let cache: ZipCacheStats | null = null;
+
+    for (let start = 0; start < payments.length; start += CHUNK_SIZE) {
+      const chunk = payments.slice(start, start + CHUNK_SIZE);
+      const lookup = await lookupTransactionZips(chunk.map((payment) => payment.transaction_id));
+      const chunkErrors = toLookupErrors(chunk, lookup.zips);
+
+      results.push(...chunk.map((payment, index) => toTransactionResult(payment, lookup.zips[index])));
+      errors.push(...chunkErrors);
+      cache = addCacheStats(cache, lookup.cache);
+      progress.failed += chunkErrors.length;
+      progress.done += chunk.length - chunkErrors.length;
+      progress.remaining -= chunk.length;
+
+      const isRunning = await updateRunningJob(job.id, (stored) => {
+        stored.progress = { ...progress };
+        stored.cache = cache;
+      });
+      if (!isRunning) {
+        return;
+      }
+    }
+
+    const jobResults: ZipJobResults = {
+      results,
+      errors,
+      summary: { total: payments.length, successful: progress.done, failed: progress.failed, cache },
+    };
+    // Overwrites anything a stopped owner of the job left behind
+    await updateStore(getResultsStoreName(job.id), jobResults, (stored) => {
+      Object.assign(stored, jobResults);
+    });
+    await updateRunningJob(job.id, (stored) => {
+      stored.status = 'completed';
+      stored.finishedAt = new Date().toISOString();
+      stored.workerId = null;
+      stored.heartbeatAt = null;
+    });
+  } catch (error) {
+    console.error(`ZIP job ${job.id} failed:`, error);
+    await updateRunningJob(job.id, (stored) => {
+      stored.status = 'failed';
+      stored.error = error instanceof Error ? error.message : 'Unknown error';
+      stored.finishedAt = new Date().toISOString();
+      stored.workerId = null;
+      stored.heartbeatAt = null;
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+// Mark the oldest queued or orphaned job as running by this process and return it.
+// An orphaned job starts over from scratch.
+const claimNextJob = (): Promise<ZipJob | null> =>
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    const now = Date.now();
+    const next = Object.values(store.jobs)
+      .filter((job) => job.status === 'queued' || isOrphaned(job, now))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!next) {
+      return null;
+    }
+
+    next.status = 'running';
+    next.startedAt = new Date(now).toISOString();
+    next.progress = { total: 0, done: 0, failed: 0, remaining: 0 };
+    next.cache = null;
+    next.workerId = WORKER_ID;
+    next.heartbeatAt = next.startedAt;
+    return { ...next };
+  });
+
+let isWorking = false;
+
+// Start working through the queue unless this process already is. Called on submit
+// and whenever jobs are read, so polling also wakes the queue after a restart.
+const startWorker = () => {
+  if (isWorking) {
+    return;
+  }
+  isWorking = true;
+
+  (async () => {
+    try {
+      for (let job = await claimNextJob(); job; job = await claimNextJob()) {
+        await runJob(job);
+      }
+    } catch (error) {
+      console.error('ZIP job queue error:', error);
+    } finally {
+      isWorking = false;
+    }
+  })();
+};
+
+export const submitZipJob = async (params: ZipJobParams, createdBy: string): Promise<ZipJob> => {
+  const now = Date.now();
+  const job: ZipJob = {
+    id: randomUUID(),
+    hostUserId: params.hostUserId,
+    status: 'queued',
+    params,
+    progress: { total: 0, done: 0, failed: 0, remaining: 0 },
+    cache: null,
+    error: null,
+    createdAt: new Date(now).toISOString(),
+    createdBy,
+    startedAt: null,
+    finishedAt: null,
+    cancelledBy: null,
+    workerId: null,
+    heartbeatAt: null,
+  };
+
+  const expiredIds = await updateStore(STORE_NAME, emptyStore(), (store) => {
+    const expired = Object.values(store.jobs).filter(
+      (stored) => isFinished(stored) && now - new Date(stored.finishedAt!).getTime() > JOB_RETENTION_MS
+    );
+    expired.forEach((stored) => delete store.jobs[stored.id]);
+
+    store.jobs[job.id] = job;
+    return expired.map((stored) => stored.id);
+  });
+
+  await Promise.all(expiredIds.map((jobId) => deleteStore(getResultsStoreName(jobId))));
+
+  startWorker();
+  return job;
+};
+
+export const getZipJob = async (jobId: string): Promise<ZipJob | null> => {
+  startWorker();
+  const store = await readStore(STORE_NAME, emptyStore());
+  return store.jobs[jobId] || null;
+};
+
+// The given hosts' jobs, newest first
+export const listZipJobs = async (hostUserIds: number[]): Promise<ZipJob[]> => {
+  startWorker();
+  const store = await readStore(STORE_NAME, emptyStore());
+
+  return Object.values(store.jobs)
+    .filter((job) => hostUserIds.includes(job.hostUserId))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Cancel a queued or running job. A running job stops after the chunk it is on.
+// Returns null when there is no such job; finished jobs are returned unchanged.
+export const cancelZipJob = (jobId: string, cancelledBy: string): Promise<ZipJob | null> =>
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    const job = store.jobs[jobId];
+    if (!job) {
+      return null;
+    }
+
+    if (!isFinished(job)) {
+      job.status = 'cancelled';
+      job.cancelledBy = cancelledBy;
+      job.finishedAt = new Date().toISOString();
+      job.workerId = null;
+      job.heartbeatAt = null;
+    }
+    return job;
+  });
+
+// A completed job's results; null for jobs that didn't complete. Only pass IDs of jobs
+// that exist, since the ID names the store.
+export const getZipJobResults = (jobId: string): Promise<ZipJobResults | null> =>
+  readStore<ZipJobResults | null>(getResultsStoreName(jobId), null);
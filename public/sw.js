@@ -0,0 +1,82 @@
+// Service worker for the offline door kiosk (/kiosk).
+// Roster data lives in IndexedDB (lib/kiosk-store.ts); this only keeps the page
+// shell and its static assets available when the venue Wi-Fi drops.
+
+const CACHE_NAME = "seat-kiosk-v1";
+const KIOSK_PATH = "/kiosk";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.add(KIOSK_PATH))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter((name) => name !== CACHE_NAME)
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // API calls always go to the network; the kiosk falls back to IndexedDB itself
+  if (url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  // Build assets are content-hashed, so a cached copy never goes stale
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+    return;
+  }
+
+  // The kiosk page itself: network first, cached copy when offline
+  if (request.mode === "navigate" && url.pathname === KIOSK_PATH) {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches
+              .open(CACHE_NAME)
+              .then((cache) => cache.put(KIOSK_PATH, copy));
+          }
+          return response;
+        })
+        .catch(() =>
+          caches.match(KIOSK_PATH).then((cached) => cached || Response.error())
+        )
+    );
+  }
+});
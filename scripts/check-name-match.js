@@ -0,0 +1,55 @@
+// Checks lib/name-match scoring against names that normalize to several tokens, which
+// a plain LIKE search finds and the fuzzy ranking must not drop.
+// Run with `npm run check:name-match`; exits non-zero when a case fails.
+const assert = require('assert');
+const fs = require('fs');
+const Module = require('module');
+const path = require('path');
+const ts = require('typescript');
+
+// lib/name-match.ts has no imports, so it can be transpiled and loaded on its own
+const loadTs = (file) => {
+  const filename = path.join(__dirname, '..', file);
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019 },
+  });
+  const loaded = new Module(filename);
+  loaded._compile(outputText, filename);
+  return loaded.exports;
+};
+
+const { MIN_MATCH_SCORE, scoreNameMatch } = loadTs('lib/name-match.ts');
+
+// [query, first name, last name, lowest acceptable score]
+const CASES = [
+  ["O'Brien", 'Pat', "O'Brien", 0.8],
+  ['Smith-Jones', 'Ann', 'Smith-Jones', 0.8],
+  ['De La Cruz', 'Maria', 'De La Cruz', 0.8],
+  ['Van Dyke', 'Dick', 'Van Dyke', 0.8],
+  ['Mary Ann', 'Mary Ann', 'Smith', 0.8],
+  ['Ann Smith-Jones', 'Ann', 'Smith-Jones', 1],
+  ['Maria De La Cruz', 'Maria', 'De La Cruz', 1],
+  ['la cru', 'Maria', 'De La Cruz', MIN_MATCH_SCORE],
+  ['Smith', 'John', 'Smith', 0.8],
+];
+
+let failures = 0;
+CASES.forEach(([query, firstName, lastName, minimum]) => {
+  const score = scoreNameMatch(query, firstName, lastName);
+  try {
+    assert.ok(score >= minimum, `"${query}" vs ${firstName} ${lastName}: ${score.toFixed(2)} < ${minimum}`);
+    console.log(`ok   "${query}" vs ${firstName} ${lastName}: ${score.toFixed(2)}`);
+  } catch (error) {
+    failures += 1;
+    console.error(`FAIL ${error.message}`);
+  }
+});
+
+// Unrelated names still fall below the cut-off
+const unrelated = scoreNameMatch('Van Dyke', 'Pat', "O'Brien");
+if (unrelated >= MIN_MATCH_SCORE) {
+  failures += 1;
+  console.error(`FAIL "Van Dyke" vs Pat O'Brien: ${unrelated.toFixed(2)} >= ${MIN_MATCH_SCORE}`);
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,100 @@
+// Local stand-in for the Payrix API, for exercising the ZIP lookups without real keys.
+// Run with `npm run mock:payrix`, then start the app with PAYRIX_ENV=mock
+// (and PAYRIX_API_URL=http://localhost:<port> if MOCK_PAYRIX_PORT is changed).
+//
+// GET /txns/:id answers like Payrix, with a ZIP derived from the ID so it's stable
+// across runs. Knobs (environment variables):
+//   MOCK_PAYRIX_PORT        port to listen on (default 4010)
+//   MOCK_PAYRIX_LATENCY_MS  delay before each response (default 50)
+//   MOCK_PAYRIX_FAIL_RATE   share of requests answered 429 or 503, 0-1 (default 0)
+//   MOCK_PAYRIX_HANG_RATE   share of requests that never answer, to test timeouts (default 0)
+// IDs containing "missing" return no transaction; IDs containing "nozip" return one without a ZIP.
+const http = require('http');
+
+const port = parseInt(process.env.MOCK_PAYRIX_PORT || '4010');
+const latencyMs = parseInt(process.env.MOCK_PAYRIX_LATENCY_MS || '50');
+const failRate = parseFloat(process.env.MOCK_PAYRIX_FAIL_RATE || '0');
+const hangRate = parseFloat(process.env.MOCK_PAYRIX_HANG_RATE || '0');
+
+let inFlight = 0;
+let maxInFlight = 0;
+let requestCount = 0;
+
+const zipFor = (transactionId) => {
+  let hash = 0;
+  for (const char of transactionId) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 100000;
+  }
+  return String(hash).padStart(5, '0');
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url === '/stats') {
+    return send(res, 200, { requestCount, inFlight, maxInFlight });
+  }
+
+  requestCount += 1;
+  inFlight += 1;
+  maxInFlight = Math.max(maxInFlight, inFlight);
+  res.on('close', () => {
+    inFlight -= 1;
+  });
+
+  const match = req.url.match(/^\/txns\/([^/?]+)/);
+
+  if (!req.headers.apikey) {
+    return send(res, 401, { response: { data: [], errors: [{ msg: 'Missing APIKEY header' }] } });
+  }
+
+  if (!match) {
+    return send(res, 404, { response: { data: [], errors: [{ msg: 'Not found' }] } });
+  }
+
+  if (Math.random() < hangRate) {
+    return;
+  }
+
+  setTimeout(() => {
+    if (Math.random() < failRate) {
+      return Math.random() < 0.5
+        ? send(res, 429, { response: { data: [], errors: [{ msg: 'Too many requests' }] } }, { 'Retry-After': '1' })
+        : send(res, 503, { response: { data: [], errors: [{ msg: 'Service unavailable' }] } });
+    }
+
+    const transactionId = decodeURIComponent(match[1]);
+    if (transactionId.includes('missing')) {
+      return send(res, 200, { response: { data: [], details: { totals: { count: 0 } }, errors: [] } });
+    }
+
+    send(res, 200, {
+      response: {
+        data: [
+          {
+            id: transactionId,
+            status: 1,
+            total: 2500,
+            first: 'Test',
+            last: 'Customer',
+            address1: '1 Main St',
+            city: 'New York',
+            state: 'NY',
+            zip: transactionId.includes('nozip') ? null : zipFor(transactionId),
+            country: 'USA',
+            avsResponse: 'Y',
+            cvvResponse: 'M',
+          },
+        ],
+        errors: [],
+      },
+    });
+  }, latencyMs);
+});
+
+server.listen(port, () => {
+  console.log(`Mock Payrix listening on http://localhost:${port} (GET /stats for counters)`);
+});